@@ -0,0 +1,109 @@
+// 点検記録の同期サーバー（参考実装）。LAN 内で1台動かし、各端末の「同期」にこの URL を設定する
+// - 依存なし（Node 20）。全記録を1つの JSON ファイルに保存（書き込みは一時ファイル → rename）
+// - 1点検=1レコード。rev（レコードごとの版）が送信元の baseRev と違えば 409 で競合を返す
+// - seq（サーバー全体の通し番号）で「前回以降に変わった記録」だけを返す
+//
+// 起動: npm run sync-server
+//   PORT=8787 DATA_FILE=./sync-data.json SYNC_TOKEN=任意の合言葉（設定時は Authorization: Bearer が必要）
+//
+// API
+//   GET /api/health
+//   GET /api/records?facility=<施設id>&since=<seq>   → { records: RemoteRecord[], seq }
+//   PUT /api/records/<施設id>/<点検キー>  { baseRev, state, deleted, updatedAt }
+//       → 200 { rev } ／ 409 { record }（サーバー側の現在の版）
+import http from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = path.resolve(process.env.DATA_FILE || "sync-data.json");
+const TOKEN = process.env.SYNC_TOKEN || "";
+const MAX_BODY = 5 * 1024 * 1024;
+
+let data = { seq: 0, records: {} };
+if (fs.existsSync(DATA_FILE)) data = JSON.parse(fs.readFileSync(DATA_FILE, "utf8"));
+
+function save() {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data));
+  fs.renameSync(tmp, DATA_FILE);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (c) => {
+      size += c.length;
+      if (size > MAX_BODY) {
+        reject(new Error("body too large"));
+        req.destroy();
+      } else chunks.push(c);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}"));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+async function handle(req, res) {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "unauthorized" });
+
+  const url = new URL(req.url, "http://localhost");
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (req.method === "GET" && url.pathname === "/api/health") return send(res, 200, { ok: true, seq: data.seq });
+
+  if (req.method === "GET" && url.pathname === "/api/records") {
+    const facility = url.searchParams.get("facility") || "";
+    const since = Number(url.searchParams.get("since") || 0);
+    const records = Object.values(data.records)
+      .filter((r) => r.facilityId === facility && r.seq > since)
+      .sort((a, b) => a.seq - b.seq);
+    return send(res, 200, { records, seq: data.seq });
+  }
+
+  if (req.method === "PUT" && parts.length === 4 && parts[0] === "api" && parts[1] === "records") {
+    const [, , facilityId, key] = parts;
+    const body = await readBody(req);
+    const id = `${facilityId}:${key}`;
+    const current = data.records[id];
+    if (Number(body.baseRev || 0) !== (current?.rev ?? 0)) return send(res, 409, { record: current });
+    const record = {
+      facilityId,
+      key,
+      rev: (current?.rev ?? 0) + 1,
+      seq: ++data.seq,
+      state: body.deleted ? null : body.state,
+      deleted: !!body.deleted,
+      updatedAt: String(body.updatedAt || new Date().toISOString()),
+    };
+    data.records[id] = record;
+    save();
+    return send(res, 200, { rev: record.rev });
+  }
+
+  send(res, 404, { error: "not found" });
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((e) => send(res, 400, { error: String(e.message || e) }));
+  })
+  .listen(PORT, () => console.log(`sync server: http://localhost:${PORT}  data: ${DATA_FILE}`));
@@ -1,19 +1,56 @@
-import React, { useEffect, useState, useId } from "react";
-import * as XLSX from "xlsx";
+import React, { useEffect, useRef, useState, useId } from "react";
+import { createPortal } from "react-dom";
+import * as XLSX from "xlsx-js-style";
 
 // 単一ファイルの React TSX アプリ（Tailwind 前提）
-// - ローカル保存（localStorage）
-// - 出力先は **Excel(.xlsx) のみ**
-// - 「表示項目の設定」UIは無し（既定の可視マップで制御）
+// - ローカル保存（IndexedDB: 1点検=1レコード、旧 localStorage のデータは初回起動時に移行）
+// - 複数施設（処理場）の切り替え。作業中データ・履歴・ポイント・様式は施設ごと
+// - 点検者の提出 → 責任者の承認。承認済みの記録は編集不可（解除は理由を記録）
+// - 変更履歴（項目単位の旧値/新値・日時・入力者を追記のみで記録）→ 版の差分表示と復元
+// - 写真の添付（セクション/ポイント毎。縮小して IndexedDB に保存、Excel 出力時は写真と一緒に ZIP で渡す）
+// - 全データのバックアップ（1ファイル・版付き）と復元（内容の確認 → 統合（日ごとに手元/バックアップ/新しい方）または置き換え）
+// - 任意で LAN 内の同期サーバーと記録を同期（1点検ごと・版番号で競合検出。オフライン中の変更は送信待ちに溜める）
+// - 計算値: 曜日は日付から自動、PAC使用量（前回記録日との残量差）・7日平均・発注レベル到達見込み日（画面/Excel）
+// - 各入力欄の横に比較値（前回の点検／先週の同じ曜日／直近7日の平均。設定で切り替え）と差分、大きな変化は強調
+// - 新しい点検: 日付を選んで新規作成し、選んだ項目を直近の記録から引き継ぐ（引き継いだ値は確認するまで印付き。既存の日は上書きしない）
+// - ポイントの入力は カード表示／表（行=ポイント・列=項目）を切り替え。表は矢印/Enter で移動、下へコピー、Excel などからの貼り付け（タブ区切り）
+// - 記録の検索（備考の文字列・項目の条件（「放流水 pH > 8.0」「いずれかのポイントの ろ抗高 ≥ X」「天候 = 雨」）・期間）
+//   → 日付順に該当値を強調して一覧、開く／該当日をまとめて1つの Excel に
+// - 統計（期間を選んで 件数/最小/最大/平均/標準偏差、選択項目は頻度）→ 画面表示と Excel の「統計」シート（月報にも付ける）
+// - 1日に複数の巡回（午前/午後/臨時など）。巡回ごと、または1日分を巡回=列でまとめて Excel 出力
+// - 出力先は **Excel(.xlsx)** と、紙の様式（A4）どおりの帳票PDF（ブラウザの印刷→PDFに保存。1点検=1枚、月単位でまとめて可）
+// - PWA: ホーム画面に追加でき、電波がなくても起動（Service Worker がビルド成果物をキャッシュ、更新は通知して再読み込み）
+// - 「表示項目の設定」UIは無し（様式テンプレートで制御。セクション/項目/単位/選択肢を編集・JSON入出力可）
+// - 管理範囲（上下限）の設定 → 画面/Excel/プレビューで逸脱を警告
+// - 入力の完了状況（表示している項目が必須。セクション/ポイント毎とツールバーに進捗、未入力一覧から入力欄へ移動）
+//   未入力のまま保存/出力するときは確認し、その旨を記録に残す（承認済みの記録は変えない。入力中の自動保存は確認しない）
+// - 数値項目ごとの入力範囲・小数桁・負の値の可否（全角数字は半角に直す）。誤った値は入力欄に表示し、出力前に確認
+// - 点検ポイントの追加/改称/並べ替え/廃止（内部IDで記録するため改称しても過去データは残る）
 // - 好気性ろ床 上部/下部は **No.付きカード（ポイント小セクション）のみ**。セクション側入力は非表示（Excelもポイント表のみ）
 // - 流入水/好気性ろ床/放流水の「臭気」「色相」はプルダウン
 
 export default function App() {
+  const [facilities, setFacilities] = useState<FacilityList>(() => readFacilities());
+  useEffect(() => writeFacilities(facilities), [facilities]);
+  const [user, setUser] = useState<string>(() => readUser());
+  useEffect(() => writeUser(user), [user]);
+  const facility = facilities.facilities.find((f) => f.id === facilities.current) ?? facilities.facilities[0];
+  // バックアップから復元したら、施設が同じでも読み直す
+  const [generation, setGeneration] = useState(0);
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900">
-      <Header />
+      <Header facilities={facilities} onChange={setFacilities} user={user} onUserChange={setUser} />
       <main className="max-w-5xl mx-auto p-4 sm:p-6 space-y-6">
-        <ChecklistApp />
+        {/* 施設を切り替えたら作り直す（作業中データ・履歴・設定を読み直す） */}
+        <ChecklistLoader
+          key={`${facility.id}:${generation}`}
+          facility={facility}
+          facilities={facilities.facilities}
+          onRestored={(list) => {
+            setFacilities(list);
+            setGeneration((g) => g + 1);
+          }}
+        />
       </main>
       <Footer />
     </div>
@@ -25,243 +62,3856 @@ const ODOR = ["微下水臭", "微 臭", "無 臭"] as const; // PDFの表記を
 const COLOR = ["黄・淡黄", "白濁・淡泊", "ほぼ透明"] as const; // ポイント用（上部/下部）
 const COLOR_INFLUENT = ["黄", "淡黄", "白濁", "淡白", "ほぼ透明"] as const; // セクション用（流入水ほか）
 
-// セクション定義
-const SECTION_DEFS = [
-  { key: "influent", label: "流入水" },
-  { key: "aerobic_upper", label: "好気性ろ床 上部" },
-  { key: "aerobic_lower", label: "好気性ろ床 下部・処理水" },
-  { key: "effluent", label: "放流水" },
-] as const;
+// --- 型定義 ---
+type HeaderForm = {
+  date: string; // YYYY-MM-DD
+  round: string; // 巡回名（午前/午後/降雨後 など）
+  time: string; // 巡回時刻 HH:MM
+  weekday: string; // ( ) 日付から自動で入る
+  weather: typeof WEATHER[number] | "";
+  airTemp: string; // 外気温 ℃
+  primarySettlingNo1: string; // 初沈界面 NO.1(m)
+  primarySettlingNo2: string; // 初沈界面 NO.2(m)
+  pacRemaining: string; // PAC残量(㎥)
+  elutionPH: string; // 脱離液 pH
+  elutionTemp: string; // 水温（脱離液）
+  waterContent: string; // 含水率 %
+};
+
+// ---- 施設テンプレート（セクション・項目・単位・選択肢）----
+// 画面/Excel/プレビューはすべてテンプレートから描画する。既定値は本アプリ元々の様式
+type SectionKey = string;
+type FieldKey = string;
+type FieldKind = "number" | "select" | "text";
+
+// 数値の入力条件（管理範囲とは別の「ありえない値」の判定。管理範囲の上下限と同じく文字列で持つ）
+type NumberSpec = {
+  min?: string;
+  max?: string;
+  decimals?: string; // 小数の桁数の上限
+  allowNegative?: boolean;
+};
+
+type FieldDef = NumberSpec & {
+  key: FieldKey; // 保存キー（作成後は変更しない）
+  label: string;
+  unit?: string;
+  kind: FieldKind;
+  options?: string[]; // kind=select の選択肢
+};
+
+type SectionDef = {
+  key: SectionKey;
+  label: string;
+  fields: FieldKey[]; // このセクションで記録する項目（並びはテンプレートの項目順）
+  perPoint?: boolean; // ポイント毎に記録（セクション側の入力は出さず、Excelもポイント表のみ）
+};
+
+type PlantTemplate = {
+  name: string;
+  fields: FieldDef[];
+  sections: SectionDef[];
+};
+
+const DEFAULT_TEMPLATE: PlantTemplate = {
+  name: "標準",
+  fields: [
+    { key: "odor", label: "臭気", kind: "select", options: [...ODOR] },
+    { key: "color", label: "色相", kind: "select", options: [...COLOR_INFLUENT] },
+    { key: "temp", label: "水温", unit: "℃", kind: "number", min: "0", max: "40", decimals: "1", allowNegative: false },
+    { key: "turbidity", label: "透視度", kind: "number", min: "0", max: "100", decimals: "0", allowNegative: false },
+    { key: "pH", label: "pH", kind: "number", min: "0", max: "14", decimals: "1", allowNegative: false },
+    { key: "DO", label: "DO", unit: "mg/L", kind: "number", min: "0", max: "20", decimals: "1", allowNegative: false },
+    { key: "residualChlorine", label: "残塩", unit: "mg/L", kind: "number", min: "0", max: "5", decimals: "2", allowNegative: false },
+    { key: "headLoss", label: "ろ抗高", kind: "number", min: "0", decimals: "1", allowNegative: false },
+    { key: "aeration", label: "送気量", kind: "number", min: "0", decimals: "1", allowNegative: false },
+    { key: "comment", label: "備考", kind: "text" },
+  ],
+  sections: [
+    { key: "influent", label: "流入水", fields: ["odor", "color", "temp", "turbidity", "pH", "DO"] },
+    {
+      key: "aerobic_upper",
+      label: "好気性ろ床 上部",
+      fields: ["odor", "color", "temp", "turbidity", "pH", "DO", "headLoss"],
+      perPoint: true,
+    },
+    {
+      key: "aerobic_lower",
+      label: "好気性ろ床 下部・処理水",
+      fields: ["odor", "color", "temp", "turbidity", "pH", "DO", "aeration"],
+      perPoint: true,
+    },
+    {
+      key: "effluent",
+      label: "放流水",
+      fields: ["odor", "color", "temp", "turbidity", "pH", "DO", "residualChlorine"],
+    },
+  ],
+};
+
+// 表示名（Excelでも使用）: 単位があれば「名称(単位)」
+function fieldLabel(d: FieldDef) {
+  return d.unit ? `${d.label}(${d.unit})` : d.label;
+}
+
+// セクションで入力する項目（可視マップで隠したものは除く。ポイント表に備考などの文章は出さない）
+function sectionFields(
+  t: PlantTemplate,
+  sec: SectionDef,
+  vis?: Partial<Record<FieldKey, boolean>>
+): FieldDef[] {
+  return t.fields.filter(
+    (d) =>
+      sec.fields.includes(d.key) &&
+      vis?.[d.key] !== false &&
+      !(sec.perPoint && d.kind === "text")
+  );
+}
+
+function numericFields(t: PlantTemplate): FieldDef[] {
+  return t.fields.filter((d) => d.kind === "number");
+}
+
+type VisibilityMap = Record<SectionKey, Partial<Record<FieldKey, boolean>>>;
+
+// テンプレートに含まれる項目 = 表示
+function visibilityFromTemplate(t: PlantTemplate): VisibilityMap {
+  return Object.fromEntries(
+    t.sections.map((sec) => [sec.key, Object.fromEntries(t.fields.map((d) => [d.key, sec.fields.includes(d.key)]))])
+  );
+}
+
+// 読み込んだテンプレート（JSON）の検証。空の選択肢や存在しない項目参照は取り除く
+function validateTemplate(raw: unknown): { ok: true; template: PlantTemplate } | { ok: false; error: string } {
+  if (!isObject(raw)) return { ok: false, error: "テンプレートの形式が不正です" };
+  if (!Array.isArray(raw.fields) || !Array.isArray(raw.sections)) {
+    return { ok: false, error: "fields / sections がありません" };
+  }
+  const fields: FieldDef[] = [];
+  for (const f of raw.fields) {
+    if (!isObject(f) || typeof f.key !== "string" || !f.key) return { ok: false, error: "項目のキーが不正です" };
+    if (fields.some((x) => x.key === f.key)) return { ok: false, error: `項目キー「${f.key}」が重複しています` };
+    if (typeof f.label !== "string" || !f.label.trim()) return { ok: false, error: `項目「${f.key}」の表示名がありません` };
+    const kind: FieldKind = f.kind === "select" || f.kind === "text" ? f.kind : "number";
+    const options = Array.isArray(f.options)
+      ? f.options.filter((o: unknown): o is string => typeof o === "string" && o.trim() !== "").map((o: string) => o.trim())
+      : [];
+    if (kind === "select" && options.length === 0) return { ok: false, error: `項目「${f.label}」に選択肢がありません` };
+    fields.push({
+      key: f.key,
+      label: f.label.trim(),
+      ...(typeof f.unit === "string" && f.unit.trim() ? { unit: f.unit.trim() } : {}),
+      kind,
+      ...(kind === "select" ? { options } : {}),
+      ...(kind === "number" ? validateNumberSpec(f) : {}),
+    });
+  }
+  const sections: SectionDef[] = [];
+  for (const sec of raw.sections) {
+    if (!isObject(sec) || typeof sec.key !== "string" || !sec.key) return { ok: false, error: "セクションのキーが不正です" };
+    if (sections.some((x) => x.key === sec.key)) return { ok: false, error: `セクションキー「${sec.key}」が重複しています` };
+    if (typeof sec.label !== "string" || !sec.label.trim()) {
+      return { ok: false, error: `セクション「${sec.key}」の表示名がありません` };
+    }
+    sections.push({
+      key: sec.key,
+      label: sec.label.trim(),
+      fields: (Array.isArray(sec.fields) ? sec.fields : []).filter((k: unknown) => fields.some((f) => f.key === k)),
+      ...(sec.perPoint === true ? { perPoint: true } : {}),
+    });
+  }
+  if (sections.length === 0) return { ok: false, error: "セクションが1つもありません" };
+  return { ok: true, template: { name: typeof raw.name === "string" ? raw.name : "", fields, sections } };
+}
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// 数値でない上下限・桁数は取り除く（全角で書かれていても読む）
+function validateNumberSpec(f: Record<string, any>): NumberSpec {
+  const num = (v: unknown) => (typeof v === "string" || typeof v === "number" ? normalizeNumberInput(String(v), true) : "");
+  const min = num(f.min);
+  const max = num(f.max);
+  const decimals = num(f.decimals);
+  return {
+    ...(toNumber(min) !== null ? { min } : {}),
+    ...(toNumber(max) !== null ? { max } : {}),
+    ...(/^\d+$/.test(decimals) ? { decimals } : {}),
+    allowNegative: f.allowNegative === true, // 常に持つ（この版以降に保存した様式の目印）
+  };
+}
+
+// 入力条件を持たない標準の項目（この版より前に保存した様式）には既定の条件を補う
+function withDefaultNumberSpecs(raw: unknown): unknown {
+  if (!isObject(raw) || !Array.isArray(raw.fields)) return raw;
+  return {
+    ...raw,
+    fields: raw.fields.map((d: unknown) => {
+      const base = isObject(d) ? DEFAULT_TEMPLATE.fields.find((x) => x.key === d.key) : undefined;
+      if (!isObject(d) || base?.kind !== "number" || "allowNegative" in d) return d;
+      return { ...d, ...validateNumberSpec(base) };
+    }),
+  };
+}
+
+// --- 状態/保存系ユーティリティ ---
+
+type SectionForm = Partial<Record<FieldKey, string>>;
+
+type PointDataMap = Record<string, SectionForm>; // point id -> values
+
+// 点検ポイント: id は不変（pointData のキー）、label は表示名（改称可）
+type PointDef = { id: string; label: string; retired?: boolean };
+// その日に記録したポイントと当日の表示名（改称後も出力は当日の名前）
+type PointRef = { id: string; label: string };
+
+// 点検者の提出 → 責任者の承認（日時は "YYYY-MM-DD HH:MM"、Excel にそのまま出す）
+type SignOff = {
+  inspector: string;
+  submittedAt: string;
+  approver: string;
+  approvedAt: string; // 空でなければ承認済み = 編集不可
+  unlocks: { by: string; at: string; reason: string }[]; // 承認解除の記録
+  incomplete: IncompleteNote[]; // 未入力のまま保存/出力した記録
+};
+
+type IncompleteNote = { by: string; at: string; action: string; missing: number };
+
+// 添付写真の参照（画像本体は IndexedDB の photos ストア）
+type PhotoRef = {
+  id: string;
+  section: SectionKey;
+  point?: string; // ポイント id（ポイントカードに添付した場合）
+  name: string; // 元のファイル名
+  at: string; // 添付日時 "YYYY-MM-DD HH:MM"
+};
+
+type FormState = {
+  schemaVersion: number; // 保存形式の版（SCHEMA_VERSION）
+  roundId: string; // 同じ日の2回目以降の巡回の識別子（1回目は ""）
+  header: HeaderForm;
+  sections: Record<SectionKey, SectionForm>;
+  points: PointRef[]; // その日の点検ポイント（並び順どおり）
+  pointData: Partial<Record<SectionKey, PointDataMap>>;
+  visibility: VisibilityMap;
+  extraNote: string; // 自由記入 備考
+  signoff: SignOff;
+  photos: PhotoRef[];
+  carried: Record<string, string>; // 前回から引き継いで未確認の値（flattenState のパス → 引き継いだ値）
+};
+
+// 共通情報の行（Excel の並び順・表示名）
+const HEADER_FIELDS: { key: keyof HeaderForm; label: string }[] = [
+  { key: "date", label: "日付" },
+  { key: "round", label: "巡回" },
+  { key: "time", label: "時刻" },
+  { key: "weekday", label: "曜日" },
+  { key: "weather", label: "天候" },
+  { key: "airTemp", label: "外気温(℃)" },
+  { key: "primarySettlingNo1", label: "初沈界面 NO.1(m)" },
+  { key: "primarySettlingNo2", label: "初沈界面 NO.2(m)" },
+  { key: "pacRemaining", label: "PAC残量(㎥)" },
+  { key: "elutionPH", label: "脱離液 pH" },
+  { key: "elutionTemp", label: "脱離液 水温(℃)" },
+  { key: "waterContent", label: "含水率(%)" },
+];
+
+// Excel の共通情報に続けて出す署名欄
+const SIGNOFF_FIELDS: { key: "inspector" | "submittedAt" | "approver" | "approvedAt"; label: string }[] = [
+  { key: "inspector", label: "点検者" },
+  { key: "submittedAt", label: "提出日時" },
+  { key: "approver", label: "承認者" },
+  { key: "approvedAt", label: "承認日時" },
+];
+
+const EMPTY_SIGNOFF: SignOff = {
+  inspector: "",
+  submittedAt: "",
+  approver: "",
+  approvedAt: "",
+  unlocks: [],
+  incomplete: [],
+};
+
+function isLocked(f: FormState) {
+  return !!f.signoff.approvedAt;
+}
+
+// 保存済みの版を next で上書きしてよいか。承認済みなら、同じ承認のままの版か承認解除を記録した版だけ
+function canOverwrite(saved: FormState, next: FormState) {
+  return (
+    !isLocked(saved) ||
+    next.signoff.approvedAt === saved.signoff.approvedAt ||
+    next.signoff.unlocks.length > saved.signoff.unlocks.length
+  );
+}
+
+function formatStamp(d: Date) {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())} ${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+// 共通情報のうち数値の項目
+const NUMERIC_HEADER_FIELDS: (keyof HeaderForm)[] = [
+  "airTemp",
+  "primarySettlingNo1",
+  "primarySettlingNo2",
+  "pacRemaining",
+  "elutionPH",
+  "elutionTemp",
+  "waterContent",
+];
+
+// 共通情報の数値の入力条件（外気温だけ氷点下がありうる）
+const HEADER_NUMBER_SPEC: Partial<Record<keyof HeaderForm, NumberSpec>> = {
+  airTemp: { min: "-30", max: "50", decimals: "1", allowNegative: true },
+  primarySettlingNo1: { min: "0", max: "10", decimals: "2" },
+  primarySettlingNo2: { min: "0", max: "10", decimals: "2" },
+  pacRemaining: { min: "0", decimals: "2" },
+  elutionPH: { min: "0", max: "14", decimals: "1" },
+  elutionTemp: { min: "0", max: "40", decimals: "1" },
+  waterContent: { min: "0", max: "100", decimals: "1" },
+};
+
+const EMPTY_HEADER: HeaderForm = {
+  date: new Date().toISOString().slice(0, 10),
+  round: "",
+  time: "",
+  weekday: weekdayOf(new Date().toISOString().slice(0, 10)),
+  weather: "",
+  airTemp: "",
+  primarySettlingNo1: "",
+  primarySettlingNo2: "",
+  pacRemaining: "",
+  elutionPH: "",
+  elutionTemp: "",
+  waterContent: "",
+};
+
+function emptySection(t: PlantTemplate, sec: SectionDef): SectionForm {
+  return Object.fromEntries(t.fields.filter((d) => sec.fields.includes(d.key)).map((d) => [d.key, ""]));
+}
+
+// 既存データと互換にするため、初期ポイントの id は旧ラベルと同じ
+const DEFAULT_POINTS: PointDef[] = ["NO.1-1", "NO.1-2", "NO.2-1", "NO.2-2"].map((label) => ({ id: label, label }));
+
+function activePoints(list: PointDef[]): PointRef[] {
+  return list.filter((p) => !p.retired).map(({ id, label }) => ({ id, label }));
+}
+
+function validatePoints(raw: unknown): PointDef[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const out: PointDef[] = [];
+  for (const p of raw) {
+    if (!isObject(p) || typeof p.id !== "string" || !p.id || typeof p.label !== "string") return null;
+    if (out.some((x) => x.id === p.id)) return null;
+    out.push({ id: p.id, label: p.label, ...(p.retired ? { retired: true } : {}) });
+  }
+  return out;
+}
+
+// localStorage 用キー（旧保存先。IndexedDB への移行元として参照）
+const STORAGE_KEY = "inspection-checklist-v1";
+// 日別アーカイブ（date -> snapshot）
+const STORAGE_KEY_ARCHIVE = "inspection-checklist-v1:archive";
+
+type ArchiveMap = Record<string, FormState>; // inspectionKey -> snapshot
+
+// 履歴のキー: 1回目の巡回は日付のみ（従来どおり）、2回目以降は 日付#roundId
+function inspectionKey(s: FormState) {
+  return s.roundId ? `${s.header.date}#${s.roundId}` : s.header.date;
+}
+
+// 日付 → 時刻 → 登録順
+function compareInspections(a: FormState, b: FormState) {
+  return (
+    a.header.date.localeCompare(b.header.date) ||
+    (a.header.time || "").localeCompare(b.header.time || "") ||
+    a.roundId.localeCompare(b.roundId)
+  );
+}
+
+// 月内の全点検（日付・時刻順）。帳票PDFの月まとめに使う
+function inspectionsInMonth(archive: ArchiveMap, month: string): FormState[] {
+  return Object.values(archive)
+    .filter((s) => s.header.date.startsWith(`${month}-`))
+    .sort(compareInspections);
+}
+
+function roundsOn(archive: ArchiveMap, date: string): FormState[] {
+  return Object.values(archive)
+    .filter((s) => s.header.date === date)
+    .sort(compareInspections);
+}
+
+// 巡回名が空なら「第n回」
+function roundLabel(s: FormState, i: number) {
+  return [s.header.round || `第${i + 1}回`, s.header.time].filter(Boolean).join(" ");
+}
+
+// ---- 施設（1台の端末で複数の処理場を記録する）----
+type Facility = { id: string; name: string };
+type FacilityList = { facilities: Facility[]; current: string };
+
+const STORAGE_KEY_FACILITIES = "inspection-checklist-v1:facilities";
+// 施設を導入する前のデータはこの施設のものとして扱う
+const DEFAULT_FACILITY: Facility = { id: "default", name: "本施設" };
+
+function readFacilities(): FacilityList {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY_FACILITIES) || "null");
+    const list: Facility[] = (Array.isArray(parsed?.facilities) ? parsed.facilities : []).filter(
+      (f: unknown) => isObject(f) && typeof f.id === "string" && typeof f.name === "string"
+    );
+    if (list.length) {
+      return { facilities: list, current: list.some((f) => f.id === parsed.current) ? parsed.current : list[0].id };
+    }
+  } catch {}
+  return { facilities: [DEFAULT_FACILITY], current: DEFAULT_FACILITY.id };
+}
+function writeFacilities(s: FacilityList) {
+  try {
+    localStorage.setItem(STORAGE_KEY_FACILITIES, JSON.stringify(s));
+  } catch {}
+}
+
+// アプリ設定（管理範囲など、日別データとは別に保存。施設ごと）
+const STORAGE_KEY_SETTINGS = "inspection-checklist-v1:settings";
+// 既定の施設は施設導入前と同じキーを使う
+function settingsKey(facilityId: string) {
+  return facilityId === DEFAULT_FACILITY.id ? STORAGE_KEY_SETTINGS : `${STORAGE_KEY_SETTINGS}:${facilityId}`;
+}
+
+// 管理範囲: scope=header は共通情報、それ以外はセクション（ポイント表はポイント毎に判定）
+type RangeScope = SectionKey | "header";
+type RangeRule = {
+  id: string;
+  scope: RangeScope;
+  field: string; // FieldKey または HeaderForm のキー
+  point?: string; // ポイント表のみ: ポイント id、空=全ポイント
+  min?: string;
+  max?: string;
+};
+
+type AppSettings = {
+  rangeRules: RangeRule[];
+  template: PlantTemplate;
+  points: PointDef[]; // 廃止したポイントも残す（過去データの表示名のため）
+  pacReorderLevel: string; // PAC の発注レベル(㎥)。空なら到達見込み日を出さない
+  compareBasis: CompareBasis; // 入力欄の横に出す比較値の基準
+  carryOver: string[]; // 新しい点検で引き継ぐ項目（"header.weather" / "セクション.項目"）
+  pointView: PointView; // ポイント入力の表示（カード／表）
+};
+
+type PointView = "card" | "grid";
+
+const DEFAULT_SETTINGS: AppSettings = {
+  template: DEFAULT_TEMPLATE,
+  points: DEFAULT_POINTS,
+  pacReorderLevel: "",
+  compareBasis: "previous",
+  carryOver: defaultCarryOver(DEFAULT_TEMPLATE),
+  pointView: "card",
+  rangeRules: [
+    { id: "effluent-pH", scope: "effluent", field: "pH", min: "5.8", max: "8.6" },
+    { id: "effluent-residualChlorine", scope: "effluent", field: "residualChlorine", min: "0.1", max: "" },
+  ],
+};
+
+function readSettings(facilityId: string = DEFAULT_FACILITY.id): AppSettings {
+  try {
+    const raw = localStorage.getItem(settingsKey(facilityId));
+    if (!raw) return { ...DEFAULT_SETTINGS };
+    return normalizeSettings(JSON.parse(raw));
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+// 保存値/バックアップの設定を検証して既定値で補う
+function normalizeSettings(raw: unknown): AppSettings {
+  if (!isObject(raw)) return { ...DEFAULT_SETTINGS };
+  const parsed = raw as Partial<AppSettings>;
+  const t = validateTemplate(withDefaultNumberSpecs(parsed.template));
+  return {
+    ...DEFAULT_SETTINGS,
+    ...parsed,
+    template: t.ok ? t.template : DEFAULT_TEMPLATE,
+    points: validatePoints(parsed.points) ?? DEFAULT_POINTS,
+    pacReorderLevel: typeof parsed.pacReorderLevel === "string" ? parsed.pacReorderLevel : "",
+    compareBasis: parsed.compareBasis && parsed.compareBasis in COMPARE_BASIS_LABEL ? parsed.compareBasis : "previous",
+    carryOver: Array.isArray(parsed.carryOver)
+      ? parsed.carryOver.filter((k): k is string => typeof k === "string")
+      : defaultCarryOver(t.ok ? t.template : DEFAULT_TEMPLATE),
+    pointView: parsed.pointView === "grid" ? "grid" : "card",
+  };
+}
+function writeSettings(facilityId: string, s: AppSettings) {
+  try {
+    localStorage.setItem(settingsKey(facilityId), JSON.stringify(s));
+  } catch {}
+}
+
+// ---- 保存形式の版管理（移行 + 読み込み時の検証）----
+// 1: 版番号なし（v1.28 まで）／2: schemaVersion を付与／3: points を {id, label} に
+const SCHEMA_VERSION = 3;
+
+// MIGRATIONS[n] は版 n → n+1 への変換
+const MIGRATIONS: Record<number, (s: Record<string, any>) => Record<string, any>> = {
+  1: (s) => {
+    // 旧仕様: ポイントカードでは臭気/色相は常に表示
+    const vis = isObject(s.visibility) ? { ...s.visibility } : {};
+    for (const k of ["aerobic_upper", "aerobic_lower"]) {
+      vis[k] = { ...(isObject(vis[k]) ? vis[k] : {}), odor: true, color: true };
+    }
+    return { ...s, visibility: vis, extraNote: s.extraNote ?? "", schemaVersion: 2 };
+  },
+  2: (s) => {
+    // これまでのラベルをそのまま id にする（pointData のキーは変わらない）
+    const points = Array.isArray(s.points)
+      ? s.points.map((p: unknown) => (typeof p === "string" ? { id: p, label: p } : p))
+      : s.points;
+    return { ...s, points, schemaVersion: 3 };
+  },
+};
+
+function migrateFormState(raw: Record<string, any>): Record<string, any> {
+  let s = raw;
+  let v = typeof s.schemaVersion === "number" ? s.schemaVersion : 1;
+  if (v > SCHEMA_VERSION) throw new Error(`新しい版（${v}）のデータは読み込めません`);
+  while (v < SCHEMA_VERSION) {
+    const m = MIGRATIONS[v];
+    if (!m) throw new Error(`版 ${v} からの移行手順がありません`);
+    s = m(s);
+    v = s.schemaVersion;
+  }
+  return s;
+}
+
+type ValidationResult =
+  | { ok: true; state: FormState; repairs: string[] }
+  | { ok: false; error: string };
+
+// 移行したうえで形を検証し、直せるものは直す（日付が読めないものは不可）
+// テンプレートにないセクション/項目の値も捨てずに残す
+function validateFormState(raw: unknown, t: PlantTemplate = DEFAULT_TEMPLATE): ValidationResult {
+  if (!isObject(raw)) return { ok: false, error: "データ形式が不正です" };
+  let s: Record<string, any>;
+  try {
+    s = migrateFormState(raw);
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+  const repairs: string[] = [];
+  const str = (v: unknown, path: string): string => {
+    if (v === undefined || v === null) return "";
+    if (typeof v === "string") return v;
+    if (typeof v === "number" || typeof v === "boolean") {
+      repairs.push(`${path}: 文字列に変換`);
+      return String(v);
+    }
+    repairs.push(`${path}: 不正な値を破棄`);
+    return "";
+  };
+  const obj = (v: unknown, path: string): Record<string, any> => {
+    if (isObject(v)) return v;
+    if (v !== undefined) repairs.push(`${path}: 不正な値を破棄`);
+    else repairs.push(`${path}: 欠落を補完`);
+    return {};
+  };
+  const fields = (v: Record<string, any>, path: string): SectionForm => {
+    const out: SectionForm = {};
+    for (const [k, x] of Object.entries(v)) out[k] = str(x, `${path}.${k}`);
+    return out;
+  };
+
+  const h = obj(s.header, "header");
+  if (typeof h.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(h.date)) {
+    return { ok: false, error: "header.date が不正です" };
+  }
+  const header = { ...EMPTY_HEADER };
+  for (const { key } of HEADER_FIELDS) header[key] = str(h[key], `header.${key}`) as any;
+
+  const sections: Record<SectionKey, SectionForm> = {};
+  const rawSections = obj(s.sections, "sections");
+  for (const [key, v] of Object.entries(rawSections)) {
+    if (isObject(v)) sections[key] = fields(v, `sections.${key}`);
+    else repairs.push(`sections.${key}: 不正な値を破棄`);
+  }
+  for (const sec of t.sections) {
+    if (!(sec.key in rawSections)) repairs.push(`sections.${sec.key}: 欠落を補完`);
+    sections[sec.key] = { ...emptySection(t, sec), ...sections[sec.key] };
+  }
+
+  let points = activePoints(DEFAULT_POINTS);
+  const rawPoints = validatePoints(s.points);
+  if (rawPoints) points = activePoints(rawPoints);
+  else if (s.points !== undefined) repairs.push("points: 既定のポイントに戻しました");
+
+  const pointData: FormState["pointData"] = {};
+  const rawPointData = obj(s.pointData, "pointData");
+  const pointKeys = new Set([...Object.keys(rawPointData), ...t.sections.filter((x) => x.perPoint).map((x) => x.key)]);
+  for (const key of pointKeys) {
+    const byLabel = isObject(rawPointData[key]) ? rawPointData[key] : {};
+    pointData[key] = Object.fromEntries(
+      Object.entries(byLabel)
+        .filter(([, rec]) => isObject(rec))
+        .map(([id, rec]) => [id, fields(rec, `pointData.${key}["${id}"]`)])
+    );
+  }
+
+  const so = isObject(s.signoff) ? s.signoff : {};
+
+  const rawVis = isObject(s.visibility) ? s.visibility : {};
+  const visibility: VisibilityMap = {};
+  for (const key of new Set([...Object.keys(rawVis), ...t.sections.map((x) => x.key)])) {
+    visibility[key] = Object.fromEntries(
+      Object.entries(isObject(rawVis[key]) ? rawVis[key] : {}).filter(([, b]) => typeof b === "boolean")
+    );
+  }
+
+  return {
+    ok: true,
+    state: {
+      schemaVersion: SCHEMA_VERSION,
+      roundId: str(s.roundId, "roundId"),
+      header,
+      sections,
+      points,
+      pointData,
+      visibility,
+      extraNote: str(s.extraNote, "extraNote"),
+      carried: Object.fromEntries(
+        Object.entries(isObject(s.carried) ? s.carried : {}).filter(([, v]) => typeof v === "string")
+      ) as Record<string, string>,
+      photos: (Array.isArray(s.photos) ? s.photos : [])
+        .filter((p: unknown) => isObject(p) && typeof p.id === "string" && typeof p.section === "string")
+        .map((p: Record<string, any>) => ({
+          id: p.id,
+          section: p.section,
+          ...(typeof p.point === "string" && p.point ? { point: p.point } : {}),
+          name: str(p.name, `photos.${p.id}.name`),
+          at: str(p.at, `photos.${p.id}.at`),
+        })),
+      signoff: {
+        inspector: str(so.inspector, "signoff.inspector"),
+        submittedAt: str(so.submittedAt, "signoff.submittedAt"),
+        approver: str(so.approver, "signoff.approver"),
+        approvedAt: str(so.approvedAt, "signoff.approvedAt"),
+        unlocks: (Array.isArray(so.unlocks) ? so.unlocks : [])
+          .filter(isObject)
+          .map((u: Record<string, any>, i: number) => ({
+            by: str(u.by, `signoff.unlocks[${i}].by`),
+            at: str(u.at, `signoff.unlocks[${i}].at`),
+            reason: str(u.reason, `signoff.unlocks[${i}].reason`),
+          })),
+        incomplete: (Array.isArray(so.incomplete) ? so.incomplete : [])
+          .filter(isObject)
+          .map((u: Record<string, any>, i: number) => ({
+            by: str(u.by, `signoff.incomplete[${i}].by`),
+            at: str(u.at, `signoff.incomplete[${i}].at`),
+            action: str(u.action, `signoff.incomplete[${i}].action`),
+            missing: typeof u.missing === "number" ? u.missing : 0,
+          })),
+      },
+    },
+    repairs,
+  };
+}
+
+// ---- 変更履歴（監査用）----
+// 入力者名は端末ごとに保存（Header で設定）
+const STORAGE_KEY_USER = "inspection-checklist-v1:user";
+
+function readUser(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY_USER) ?? "";
+  } catch {
+    return "";
+  }
+}
+function writeUser(name: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY_USER, name);
+  } catch {}
+}
+
+type FieldChange = { path: string; old: string; new: string };
+
+// 1保存 = 1件。state はその時点の版（復元用）。削除時は deleted
+type ChangeEntry = {
+  seq?: number; // 自動採番
+  recordId: string;
+  at: string; // ISO
+  user: string;
+  changes: FieldChange[];
+  state: FormState;
+  deleted?: boolean;
+};
+
+// 比較用に「パス → 値」へ平らにする（例: pointData.aerobic_upper["NO.1-2"].DO）
+function flattenState(s: FormState): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(s.header)) out[`header.${k}`] = v;
+  for (const [sec, rec] of Object.entries(s.sections)) {
+    for (const [k, v] of Object.entries(rec)) out[`sections.${sec}.${k}`] = v ?? "";
+  }
+  for (const [sec, byId] of Object.entries(s.pointData)) {
+    for (const [id, rec] of Object.entries(byId ?? {})) {
+      for (const [k, v] of Object.entries(rec)) out[`pointData.${sec}["${id}"].${k}`] = v ?? "";
+    }
+  }
+  out.points = s.points.map((p) => p.label).join("、");
+  for (const [sec, vis] of Object.entries(s.visibility)) {
+    for (const [k, v] of Object.entries(vis)) out[`visibility.${sec}.${k}`] = String(v);
+  }
+  out.extraNote = s.extraNote;
+  for (const { key } of SIGNOFF_FIELDS) out[`signoff.${key}`] = s.signoff[key];
+  out.photos = s.photos.map((p) => `${p.section}${p.point ? `["${p.point}"]` : ""}: ${p.name}`).join("、");
+  out.carried = Object.keys(s.carried).join("、");
+  out["signoff.unlocks"] = s.signoff.unlocks.map((u) => `${u.at} ${u.by}: ${u.reason}`).join(" / ");
+  out["signoff.incomplete"] = s.signoff.incomplete.map((u) => `${u.at} ${u.by}: ${u.action}（未入力 ${u.missing}）`).join(" / ");
+  return out;
+}
+
+// 空欄と未設定は同じ扱い。prev がなければ新規（入力済みの項目だけ並ぶ）
+function diffStates(prev: FormState | undefined, next: FormState): FieldChange[] {
+  const a = prev ? flattenState(prev) : {};
+  const b = flattenState(next);
+  const changes: FieldChange[] = [];
+  for (const path of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const o = a[path] ?? "";
+    const n = b[path] ?? "";
+    if (o !== n) changes.push({ path, old: o, new: n });
+  }
+  return changes;
+}
+
+// ---- 永続化（IndexedDB: 1点検=1レコード）----
+const DB_NAME = "inspection-checklist";
+// 1: id = 日付／2: 施設ごと（id = 施設id:日付、facility インデックス）／3: 変更履歴／4: 写真／5: 同期状態
+const DB_VERSION = 5;
+const STORE_INSPECTIONS = "inspections"; // id -> InspectionRecord
+const STORE_KV = "kv"; // 編集中データ（施設ごと）・移行済みフラグ
+const STORE_CHANGES = "changes"; // 追記のみ: seq -> ChangeEntry
+const STORE_PHOTOS = "photos"; // id -> PhotoRecord
+const STORE_SYNC = "sync"; // 記録 id -> SyncMeta（サーバーの版・送信待ち・競合）
+const KV_WORKING = "working";
+const KV_MIGRATED = "migratedFromLocalStorage";
+// 入力が止まってから保存するまでの待ち時間
+const SAVE_DEBOUNCE_MS = 600;
+
+type InspectionRecord = {
+  id: string; // recordId(facilityId, inspectionKey)
+  facilityId: string;
+  date: string;
+  state: FormState;
+  updatedAt: string;
+};
+
+function recordId(facilityId: string, key: string) {
+  return `${facilityId}:${key}`;
+}
+function workingKey(facilityId: string) {
+  return `${KV_WORKING}:${facilityId}`;
+}
+
+function toRecord(facilityId: string, state: FormState): InspectionRecord {
+  const id = recordId(facilityId, inspectionKey(state));
+  return { id, facilityId, date: state.header.date, state, updatedAt: new Date().toISOString() };
+}
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      if (!db.objectStoreNames.contains(STORE_INSPECTIONS)) {
+        db.createObjectStore(STORE_INSPECTIONS, { keyPath: "id" }).createIndex("date", "date");
+      }
+      if (!db.objectStoreNames.contains(STORE_KV)) db.createObjectStore(STORE_KV);
+      if (!db.objectStoreNames.contains(STORE_CHANGES)) {
+        db.createObjectStore(STORE_CHANGES, { keyPath: "seq", autoIncrement: true }).createIndex("record", "recordId");
+      }
+      if (!db.objectStoreNames.contains(STORE_PHOTOS)) db.createObjectStore(STORE_PHOTOS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(STORE_SYNC)) db.createObjectStore(STORE_SYNC, { keyPath: "id" });
+      const inspections = tx.objectStore(STORE_INSPECTIONS);
+      if (!inspections.indexNames.contains("facility")) inspections.createIndex("facility", "facilityId");
+      if (e.oldVersion === 1) upgradeToFacilities(tx);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+// 版1（施設なし）の記録と編集中データを既定の施設へ付け替える（versionchange トランザクション内）
+function upgradeToFacilities(tx: IDBTransaction) {
+  const inspections = tx.objectStore(STORE_INSPECTIONS);
+  inspections.getAll().onsuccess = (e) => {
+    for (const r of (e.target as IDBRequest<InspectionRecord[]>).result) {
+      if (r.facilityId) continue;
+      inspections.delete(r.id);
+      inspections.put({ ...r, id: recordId(DEFAULT_FACILITY.id, r.date), facilityId: DEFAULT_FACILITY.id });
+    }
+  };
+  const kv = tx.objectStore(STORE_KV);
+  kv.get(KV_WORKING).onsuccess = (e) => {
+    const working = (e.target as IDBRequest).result;
+    if (working === undefined) return;
+    kv.put(working, workingKey(DEFAULT_FACILITY.id));
+    kv.delete(KV_WORKING);
+  };
+}
+
+// 旧 localStorage（編集中 + アーカイブ1本の JSON）から1回だけ移行する（既定の施設へ）
+async function migrateFromLocalStorage(db: IDBDatabase) {
+  const done = await idbRequest(db.transaction(STORE_KV).objectStore(STORE_KV).get(KV_MIGRATED));
+  if (done) return;
+  let archive: ArchiveMap = {};
+  let working: FormState | null = null;
+  try {
+    archive = JSON.parse(localStorage.getItem(STORAGE_KEY_ARCHIVE) || "{}") as ArchiveMap;
+    working = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null") as FormState | null;
+  } catch {}
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV], "readwrite");
+  for (const state of Object.values(archive)) {
+    if (state?.header?.date) tx.objectStore(STORE_INSPECTIONS).put(toRecord(DEFAULT_FACILITY.id, state));
+  }
+  if (working) tx.objectStore(STORE_KV).put(working, workingKey(DEFAULT_FACILITY.id));
+  tx.objectStore(STORE_KV).put(new Date().toISOString(), KV_MIGRATED);
+  await idbDone(tx);
+  // 移行が確定してから旧データを消す（localStorage の容量を空ける）
+  localStorage.removeItem(STORAGE_KEY_ARCHIVE);
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// 表示中の施設のアーカイブのメモリ上の写し（施設を開く時に読み込み、書き込み成功時に更新）
+let archiveCache: ArchiveMap = {};
+let archiveFacility = "";
+
+function cacheArchive(facilityId: string, key: string, state: FormState | null) {
+  if (facilityId !== archiveFacility) return;
+  const { [key]: _removed, ...rest } = archiveCache;
+  archiveCache = state ? { ...rest, [key]: state } : rest;
+}
+
+type StorageBoot = {
+  working: FormState | null;
+  issues: string[]; // 読み込み時に修復/除外したもの
+};
+
+let migrationPromise: Promise<void> | null = null;
+// 施設を開くたびに読み直す（localStorage からの移行は初回のみ）
+function openStorage(facilityId: string): Promise<StorageBoot> {
+  return (async () => {
+    const db = await openDb();
+    migrationPromise ??= migrateFromLocalStorage(db);
+    await migrationPromise;
+    const tx = db.transaction([STORE_INSPECTIONS, STORE_KV]);
+    const [records, working] = await Promise.all([
+      idbRequest(
+        tx.objectStore(STORE_INSPECTIONS).index("facility").getAll(facilityId) as IDBRequest<InspectionRecord[]>
+      ),
+      idbRequest(tx.objectStore(STORE_KV).get(workingKey(facilityId)) as IDBRequest<FormState | undefined>),
+    ]);
+    const issues: string[] = [];
+    const template = readSettings(facilityId).template;
+    archiveCache = {};
+    archiveFacility = facilityId;
+    for (const r of records) {
+      const v = validateFormState(r.state, template);
+      if (!v.ok) issues.push(`履歴 ${r.date}: ${v.error}（読み込みから除外）`);
+      else {
+        if (v.repairs.length) issues.push(`履歴 ${r.date}: ${v.repairs.join("、")}`);
+        archiveCache[inspectionKey(v.state)] = v.state;
+      }
+    }
+    let restored: FormState | null = null;
+    if (working) {
+      const v = validateFormState(working, template);
+      if (!v.ok) issues.push(`編集中データ: ${v.error}（新規で開始）`);
+      else {
+        if (v.repairs.length) issues.push(`編集中データ: ${v.repairs.join("、")}`);
+        restored = v.state;
+      }
+    }
+    return { working: restored, issues };
+  })();
+}
+
+// 保存済みの版と比べて変わっていれば、記録の更新と変更履歴の追記を同じトランザクションで行う
+// 承認済みの版は canOverwrite を満たさない限り上書きしない（入力からの保存。結果は false）
+// 同期で受け取った版（sync）は送信待ちにせず、復元で個別に選んだ版（restore）とともに承認済みでも書き込む
+type RecordSource = "edit" | "sync" | "restore";
+function putRecordWithLog(
+  tx: IDBTransaction,
+  facilityId: string,
+  state: FormState,
+  source: RecordSource = "edit"
+): Promise<boolean> {
+  const inspections = tx.objectStore(STORE_INSPECTIONS);
+  const rec = toRecord(facilityId, state);
+  return new Promise((resolve) => {
+    inspections.get(rec.id).onsuccess = (e) => {
+      // 保存済みの版は旧形式のこともあるので、比べる前に現行の形へ揃える
+      const v = validateFormState((e.target as IDBRequest<InspectionRecord | undefined>).result?.state);
+      const prev = v.ok ? v.state : undefined;
+      if (prev && source === "edit" && !canOverwrite(prev, state)) return resolve(false);
+      resolve(true);
+      const changes = diffStates(prev, state);
+      if (prev && changes.length === 0) return;
+      inspections.put(rec);
+      const entry: ChangeEntry = { recordId: rec.id, at: rec.updatedAt, user: readUser(), changes, state };
+      tx.objectStore(STORE_CHANGES).add(entry);
+      if (source !== "sync") markPending(tx, facilityId, inspectionKey(state), false);
+    };
+  });
+}
+
+// 編集中データと、その日付のアーカイブを同じトランザクションで保存
+// 削除した施設（id は使い回さない）。削除後に外れる画面の書き出し（保存待ち/アンマウント時）で記録が復活しないように
+const removedFacilities = new Set<string>();
+
+async function saveWorkingState(facilityId: string, state: FormState) {
+  if (removedFacilities.has(facilityId)) return false;
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_CHANGES, STORE_SYNC], "readwrite");
+  tx.objectStore(STORE_KV).put(state, workingKey(facilityId));
+  const written = state.header.date ? putRecordWithLog(tx, facilityId, state) : Promise.resolve(false);
+  await idbDone(tx);
+  if (await written) cacheArchive(facilityId, inspectionKey(state), state);
+  return written;
+}
+
+async function putArchiveEntry(facilityId: string, state: FormState) {
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_CHANGES, STORE_SYNC], "readwrite");
+  const written = putRecordWithLog(tx, facilityId, state);
+  await idbDone(tx);
+  if (await written) cacheArchive(facilityId, inspectionKey(state), state);
+  return written;
+}
+
+// 削除も履歴に残す（削除直前の版を持たせて復元できるように）
+async function deleteArchiveEntry(facilityId: string, key: string) {
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_CHANGES, STORE_SYNC], "readwrite");
+  removeRecordWithLog(tx, facilityId, key);
+  await idbDone(tx);
+  cacheArchive(facilityId, key, null);
+}
+
+function removeRecordWithLog(tx: IDBTransaction, facilityId: string, key: string, fromSync = false) {
+  const inspections = tx.objectStore(STORE_INSPECTIONS);
+  const id = recordId(facilityId, key);
+  inspections.get(id).onsuccess = (e) => {
+    const prev = (e.target as IDBRequest<InspectionRecord | undefined>).result;
+    if (!prev) return;
+    inspections.delete(id);
+    const entry: ChangeEntry = {
+      recordId: id,
+      at: new Date().toISOString(),
+      user: readUser(),
+      changes: [],
+      state: prev.state,
+      deleted: true,
+    };
+    tx.objectStore(STORE_CHANGES).add(entry);
+    if (!fromSync) markPending(tx, facilityId, key, true);
+  };
+}
+
+// 1件の点検の変更履歴（古い順）
+async function listChanges(facilityId: string, key: string): Promise<ChangeEntry[]> {
+  const db = await openDb();
+  const index = db.transaction(STORE_CHANGES).objectStore(STORE_CHANGES).index("record");
+  const entries = await idbRequest(index.getAll(recordId(facilityId, key)) as IDBRequest<ChangeEntry[]>);
+  return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+// 他施設の記録の有無（コピー/移動時の上書き確認用）
+async function hasArchiveEntry(facilityId: string, key: string) {
+  const db = await openDb();
+  const store = db.transaction(STORE_INSPECTIONS).objectStore(STORE_INSPECTIONS);
+  return (await idbRequest(store.getKey(recordId(facilityId, key)))) !== undefined;
+}
+
+// 施設の削除: 記録・編集中データ・設定をまとめて消す（変更履歴は監査用に残す）
+async function deleteFacilityData(facilityId: string) {
+  removedFacilities.add(facilityId);
+  try {
+    const db = await openDb();
+    const tx = db.transaction([STORE_INSPECTIONS, STORE_KV], "readwrite");
+    const inspections = tx.objectStore(STORE_INSPECTIONS);
+    const keys = await idbRequest(inspections.index("facility").getAllKeys(facilityId));
+    for (const k of keys) inspections.delete(k);
+    tx.objectStore(STORE_KV).delete(workingKey(facilityId));
+    await idbDone(tx);
+  } catch (e) {
+    // 削除できなければ施設は残るので、保存も元どおり
+    removedFacilities.delete(facilityId);
+    throw e;
+  }
+  localStorage.removeItem(settingsKey(facilityId));
+  await deleteOrphanPhotos();
+}
+
+// 記録・編集中データ・変更履歴（削除した施設の分は除く）のどこからも参照されない写真の本体を消す
+async function deleteOrphanPhotos() {
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_CHANGES, STORE_PHOTOS], "readwrite");
+  const [records, kvKeys, kvValues, changes, photoIds] = await Promise.all([
+    idbRequest(tx.objectStore(STORE_INSPECTIONS).getAll() as IDBRequest<InspectionRecord[]>),
+    idbRequest(tx.objectStore(STORE_KV).getAllKeys()),
+    idbRequest(tx.objectStore(STORE_KV).getAll()),
+    idbRequest(tx.objectStore(STORE_CHANGES).getAll() as IDBRequest<ChangeEntry[]>),
+    idbRequest(tx.objectStore(STORE_PHOTOS).getAllKeys()),
+  ]);
+  const removed = (recordId: string) => [...removedFacilities].some((id) => recordId.startsWith(`${id}:`));
+  const states: unknown[] = [
+    ...records.map((r) => r.state),
+    ...kvValues.filter((_, i) => String(kvKeys[i]).startsWith(KV_WORKING)),
+    ...changes.filter((c) => !removed(c.recordId)).map((c) => c.state),
+  ];
+  const used = new Set(
+    states.flatMap((s) => (isObject(s) && Array.isArray(s.photos) ? s.photos.map((p: { id?: unknown }) => p?.id) : []))
+  );
+  for (const id of photoIds) if (!used.has(id)) tx.objectStore(STORE_PHOTOS).delete(id);
+  await idbDone(tx);
+}
+
+// ---- 写真（縮小した JPEG とサムネイルを Blob で保存）----
+// 外した写真の本体はすぐには消さない（変更履歴から復元した版や、他施設へコピーした日からも参照されるため）
+// どこからも参照されなくなった本体は、施設の削除時にまとめて消す（deleteOrphanPhotos）
+type PhotoRecord = { id: string; image: Blob; thumb: Blob };
+
+const PHOTO_MAX_PX = 1600;
+const PHOTO_THUMB_PX = 240;
+
+async function resizeImage(file: Blob, maxPx: number, quality: number): Promise<Blob> {
+  const bmp = await createImageBitmap(file);
+  const scale = Math.min(1, maxPx / Math.max(bmp.width, bmp.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bmp.width * scale);
+  canvas.height = Math.round(bmp.height * scale);
+  canvas.getContext("2d")!.drawImage(bmp, 0, 0, canvas.width, canvas.height);
+  bmp.close();
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("画像を変換できません"))), "image/jpeg", quality)
+  );
+}
+
+async function storePhoto(file: File, section: SectionKey, point?: string): Promise<PhotoRef> {
+  const [image, thumb] = await Promise.all([resizeImage(file, PHOTO_MAX_PX, 0.8), resizeImage(file, PHOTO_THUMB_PX, 0.7)]);
+  const id = `ph_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  const db = await openDb();
+  const tx = db.transaction(STORE_PHOTOS, "readwrite");
+  tx.objectStore(STORE_PHOTOS).put({ id, image, thumb } satisfies PhotoRecord);
+  await idbDone(tx);
+  return { id, section, ...(point ? { point } : {}), name: file.name, at: formatStamp(new Date()) };
+}
+
+async function getPhoto(id: string): Promise<PhotoRecord | undefined> {
+  const db = await openDb();
+  return idbRequest(db.transaction(STORE_PHOTOS).objectStore(STORE_PHOTOS).get(id));
+}
+
+// ---- ZIP 書き出し（無圧縮。Excel と写真を1ファイルにまとめるため）----
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array) {
+  let c = 0xffffffff;
+  for (const b of data) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function makeZip(files: { name: string; data: Uint8Array }[]): Blob {
+  const enc = new TextEncoder();
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const f of files) {
+    const name = enc.encode(f.name);
+    const crc = crc32(f.data);
+    const local = new DataView(new ArrayBuffer(30));
+    // 0x0800: ファイル名は UTF-8
+    [0x04034b50, 20, 0x0800, 0, time, date, crc, f.data.length, f.data.length, name.length, 0].reduce(
+      (pos, v, i) => (i === 0 || i === 6 || i === 7 || i === 8 ? (local.setUint32(pos, v, true), pos + 4) : (local.setUint16(pos, v, true), pos + 2)),
+      0
+    );
+    parts.push(new Uint8Array(local.buffer), name, f.data);
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014b50, true);
+    dir.setUint16(4, 20, true);
+    dir.setUint16(6, 20, true);
+    dir.setUint16(8, 0x0800, true);
+    dir.setUint16(12, time, true);
+    dir.setUint16(14, date, true);
+    dir.setUint32(16, crc, true);
+    dir.setUint32(20, f.data.length, true);
+    dir.setUint32(24, f.data.length, true);
+    dir.setUint16(28, name.length, true);
+    dir.setUint32(42, offset, true);
+    central.push(new Uint8Array(dir.buffer), name);
+    offset += 30 + name.length + f.data.length;
+  }
+  const size = central.reduce((n, c) => n + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, size, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: "application/zip" });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// 写真があれば「写真」シートを足し、Excel と写真を ZIP にまとめる（なければ従来どおり .xlsx）
+async function downloadWorkbook(wb: XLSX.WorkBook, filename: string, photos: { ref: PhotoRef; where: string }[]) {
+  if (photos.length === 0) {
+    XLSX.writeFile(wb, filename);
+    return;
+  }
+  const files: { name: string; data: Uint8Array }[] = [];
+  const rows: string[][] = [["No.", "添付先", "ファイル", "添付日時", "元のファイル名"]];
+  for (const [i, { ref, where }] of photos.entries()) {
+    const rec = await getPhoto(ref.id);
+    const name = `写真/${String(i + 1).padStart(2, "0")}_${fileSafe(where)}.jpg`;
+    rows.push([String(i + 1), where, rec ? name : "（画像がありません）", ref.at, ref.name]);
+    if (rec) files.push({ name, data: new Uint8Array(await rec.image.arrayBuffer()) });
+  }
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  (ws as any)["!cols"] = [{ wch: 5 }, { wch: 28 }, { wch: 36 }, { wch: 18 }, { wch: 24 }];
+  XLSX.utils.book_append_sheet(wb, ws, "写真");
+  const xlsx = new Uint8Array(XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer);
+  downloadBlob(makeZip([{ name: filename, data: xlsx }, ...files]), filename.replace(/\.xlsx$/, ".zip"));
+}
+
+// 写真の添付先の表示名（セクション名 + その日のポイント名）
+function photoWhere(t: PlantTemplate, f: FormState, ref: PhotoRef) {
+  const sec = t.sections.find((d) => d.key === ref.section)?.label ?? ref.section;
+  if (!ref.point) return sec;
+  const label = f.points.find((p) => p.id === ref.point)?.label ?? ref.point;
+  return `${sec} ${displayPointLabel(label)}`;
+}
+
+// ---- 全データのバックアップ/復元（施設・設定・編集中データ・全記録・写真を1つの JSON に）----
+// 変更履歴は含めない（復元で書き込んだ記録は、この端末の変更履歴に追記される）
+const BACKUP_FORMAT = "inspection-checklist-backup";
+// 1: 初版
+const BACKUP_VERSION = 1;
+
+type BackupRecord = { state: FormState; updatedAt: string };
+type BackupFacility = {
+  facility: Facility;
+  settings: AppSettings;
+  working: FormState | null;
+  records: BackupRecord[];
+};
+type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  current: string; // 表示中だった施設
+  facilities: BackupFacility[];
+  photos: { id: string; image: string; thumb: string }[]; // data URL
+};
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function createBackup(): Promise<BackupFile> {
+  const list = readFacilities();
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_PHOTOS]);
+  const [records, photos, workings] = await Promise.all([
+    idbRequest(tx.objectStore(STORE_INSPECTIONS).getAll() as IDBRequest<InspectionRecord[]>),
+    idbRequest(tx.objectStore(STORE_PHOTOS).getAll() as IDBRequest<PhotoRecord[]>),
+    Promise.all(
+      list.facilities.map((f) => idbRequest(tx.objectStore(STORE_KV).get(workingKey(f.id)) as IDBRequest<FormState | undefined>))
+    ),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    current: list.current,
+    facilities: list.facilities.map((facility, i) => ({
+      facility,
+      settings: readSettings(facility.id),
+      working: workings[i] ?? null,
+      records: records
+        .filter((r) => r.facilityId === facility.id)
+        .map((r) => ({ state: r.state, updatedAt: r.updatedAt })),
+    })),
+    photos: await Promise.all(
+      photos.map(async (p) => ({ id: p.id, image: await blobToDataUrl(p.image), thumb: await blobToDataUrl(p.thumb) }))
+    ),
+  };
+}
+
+type BackupParse = { ok: true; backup: BackupFile; issues: string[] } | { ok: false; error: string };
+
+// 読み込んだバックアップの検証（記録は施設の様式で検証し、読めないものは除外して issues に残す）
+function parseBackup(raw: unknown): BackupParse {
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) return { ok: false, error: "本アプリのバックアップファイルではありません" };
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    return { ok: false, error: `新しい版（${String(raw.version)}）のバックアップです。アプリを更新してください` };
+  }
+  const issues: string[] = [];
+  const facilities: BackupFacility[] = [];
+  for (const f of Array.isArray(raw.facilities) ? raw.facilities : []) {
+    const fac = isObject(f) ? f.facility : undefined;
+    if (!isObject(fac) || typeof fac.id !== "string" || typeof fac.name !== "string") {
+      issues.push("施設情報のない項目を除外しました");
+      continue;
+    }
+    const settings = normalizeSettings(f.settings);
+    const records: BackupRecord[] = [];
+    for (const r of Array.isArray(f.records) ? f.records : []) {
+      const v = validateFormState(isObject(r) ? r.state : undefined, settings.template);
+      if (!v.ok) issues.push(`${fac.name}: ${v.error}（除外）`);
+      else if (!v.state.header.date) issues.push(`${fac.name}: 日付のない記録を除外しました`);
+      else records.push({ state: v.state, updatedAt: typeof r.updatedAt === "string" ? r.updatedAt : "" });
+    }
+    const w = f.working ? validateFormState(f.working, settings.template) : null;
+    if (w && !w.ok) issues.push(`${fac.name} の編集中データ: ${w.error}（除外）`);
+    facilities.push({ facility: { id: fac.id, name: fac.name }, settings, working: w?.ok ? w.state : null, records });
+  }
+  if (facilities.length === 0) return { ok: false, error: "施設が1つも含まれていません" };
+  const photos = (Array.isArray(raw.photos) ? raw.photos : []).filter(
+    (p: unknown) => isObject(p) && typeof p.id === "string" && typeof p.image === "string" && typeof p.thumb === "string"
+  );
+  const current = facilities.some((f) => f.facility.id === raw.current) ? (raw.current as string) : facilities[0].facility.id;
+  return {
+    ok: true,
+    backup: { format: BACKUP_FORMAT, version: raw.version, createdAt: String(raw.createdAt ?? ""), current, facilities, photos },
+    issues,
+  };
+}
+
+// この端末の全記録（復元の突き合わせ用。更新日時も要るのでキャッシュではなく DB から）
+async function readAllRecords(): Promise<InspectionRecord[]> {
+  const db = await openDb();
+  return idbRequest(db.transaction(STORE_INSPECTIONS).objectStore(STORE_INSPECTIONS).getAll() as IDBRequest<InspectionRecord[]>);
+}
+
+type RestoreMode = "merge" | "replace";
+type ConflictChoice = "mine" | "theirs" | "newer";
+type RestoreItem = {
+  facilityId: string;
+  key: string; // inspectionKey
+  mine?: InspectionRecord;
+  theirs: BackupRecord;
+  same: boolean; // 内容が同じ（書き込み不要）
+};
+
+// バックアップの記録ごとに、この端末の同じ施設・同じ点検と突き合わせる
+function planRestore(mine: InspectionRecord[], backup: BackupFile): RestoreItem[] {
+  const byId = new Map(mine.map((r) => [r.id, r]));
+  return backup.facilities.flatMap(({ facility, records }) =>
+    records.map((theirs) => {
+      const key = inspectionKey(theirs.state);
+      const m = byId.get(recordId(facility.id, key));
+      const prev = m ? validateFormState(m.state) : undefined;
+      const same = !!prev?.ok && diffStates(prev.state, theirs.state).length === 0;
+      return { facilityId: facility.id, key, mine: m, theirs, same };
+    })
+  );
+}
+
+// 統合時にバックアップ側を書き込むか（手元にない記録は常に書き込む）
+// 承認済みの手元の記録は、その記録で個別に「バックアップ」を選んだ時だけ上書きする
+function takeTheirs(item: RestoreItem, choice: ConflictChoice, pick?: ConflictChoice): boolean {
+  if (!item.mine) return true;
+  if (item.same) return false;
+  if (pick) return pick === "theirs" || (pick === "newer" && item.theirs.updatedAt > item.mine.updatedAt);
+  if (isLocked(item.mine.state)) return false;
+  return choice === "theirs" || (choice === "newer" && item.theirs.updatedAt > item.mine.updatedAt);
+}
+
+// 復元の実行。置き換えはこの端末の全施設の記録・編集中データ・設定を消してから書き込む（変更履歴は残す）
+// 消去と書き込みは同じトランザクションで行う（書き込みに失敗したら端末のデータは元のまま）
+// 統合では既存施設の名称・設定・編集中データは手元のまま（手元にない施設/編集中データだけ足す）
+// ただし編集中の点検を復元した版に替えたら、編集中データもその版にする（古い編集中データが自動保存で戻さないように）
+async function applyRestore(backup: BackupFile, mode: RestoreMode, items: RestoreItem[]): Promise<FacilityList> {
+  const here = readFacilities();
+  const hereIds = new Set(here.facilities.map((f) => f.id));
+  const cleared = mode === "replace" ? (await readAllRecords()).filter((r) => hereIds.has(r.facilityId)) : [];
+  const known = new Set(mode === "replace" ? [] : here.facilities.map((f) => f.id));
+  const photos = await Promise.all(
+    backup.photos.map(async (p) => ({
+      id: p.id,
+      image: await (await fetch(p.image)).blob(),
+      thumb: await (await fetch(p.thumb)).blob(),
+    }))
+  );
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_CHANGES, STORE_PHOTOS, STORE_SYNC], "readwrite");
+  const kv = tx.objectStore(STORE_KV);
+  if (mode === "replace") {
+    for (const r of cleared) tx.objectStore(STORE_INSPECTIONS).delete(r.id);
+    for (const id of hereIds) kv.delete(workingKey(id));
+  }
+  for (const p of photos) tx.objectStore(STORE_PHOTOS).put(p satisfies PhotoRecord);
+  for (const item of items) putRecordWithLog(tx, item.facilityId, item.theirs.state, "restore");
+  for (const facilityId of new Set(items.map((i) => i.facilityId))) {
+    const key = workingKey(facilityId);
+    kv.get(key).onsuccess = (e) => {
+      const w = validateFormState((e.target as IDBRequest).result);
+      const item = w.ok && items.find((i) => i.facilityId === facilityId && i.key === inspectionKey(w.state));
+      if (item) kv.put(item.theirs.state, key);
+    };
+  }
+  for (const { facility, working } of backup.facilities) {
+    if (!working) continue;
+    const key = workingKey(facility.id);
+    kv.getKey(key).onsuccess = (e) => {
+      if ((e.target as IDBRequest).result === undefined) kv.put(working, key);
+    };
+  }
+  await idbDone(tx);
+  if (mode === "replace") {
+    // バックアップにない施設は削除と同じ扱い（外れる画面の書き出しで戻らないように）
+    for (const id of hereIds) {
+      localStorage.removeItem(settingsKey(id));
+      if (!backup.facilities.some((f) => f.facility.id === id)) removedFacilities.add(id);
+    }
+    await deleteOrphanPhotos();
+  }
+  // 以前に削除した施設もバックアップに含まれていれば戻る（既定の施設など）。保存を止めたままにしない
+  for (const { facility } of backup.facilities) removedFacilities.delete(facility.id);
+  for (const { facility, settings } of backup.facilities) {
+    if (!known.has(facility.id)) writeSettings(facility.id, settings);
+  }
+  const added = backup.facilities.map((f) => f.facility).filter((f) => !known.has(f.id));
+  const list =
+    mode === "replace"
+      ? { facilities: added, current: backup.current }
+      : { facilities: [...here.facilities, ...added], current: here.current };
+  writeFacilities(list);
+  return list;
+}
+
+// ---- サーバー同期（任意。server/sync-server.mjs と対になる）----
+// 施設は id で突き合わせる（既定の施設以外は、バックアップの復元などで各端末の施設 id を揃えておく）
+// 写真の画像本体は同期しない（参照だけが届き、他の端末では「画像なし」と表示される）
+type SyncConfig = { url: string; token: string };
+const STORAGE_KEY_SYNC = "inspection-checklist-v1:sync";
+
+function readSyncConfig(): SyncConfig {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY_SYNC) || "null");
+    if (isObject(parsed)) return { url: String(parsed.url ?? ""), token: String(parsed.token ?? "") };
+  } catch {}
+  return { url: "", token: "" };
+}
+function writeSyncConfig(c: SyncConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY_SYNC, JSON.stringify(c));
+  } catch {}
+}
+
+type RemoteRecord = {
+  facilityId: string;
+  key: string; // inspectionKey
+  rev: number;
+  state: FormState | null; // 削除済みは null
+  deleted: boolean;
+  updatedAt: string;
+};
+
+// 記録ごとの同期状態。rev は最後にサーバーと一致した版、pending は未送信の変更あり
+type SyncMeta = {
+  id: string; // recordId
+  facilityId: string;
+  key: string;
+  rev: number;
+  pending: boolean;
+  deleted?: boolean;
+  conflict?: RemoteRecord; // 送信/受信で食い違ったサーバー側の版（解決するまで送らない）
+};
+
+// 端末内で記録が変わった（同期を促す）
+const LOCAL_CHANGE_EVENT = "inspection-local-change";
+// 同期でサーバーの版を書き込んだ（detail: { facilityId, keys }）
+const SYNC_APPLIED_EVENT = "inspection-sync-applied";
+
+function markPending(tx: IDBTransaction, facilityId: string, key: string, deleted: boolean) {
+  const store = tx.objectStore(STORE_SYNC);
+  const id = recordId(facilityId, key);
+  store.get(id).onsuccess = (e) => {
+    const prev = (e.target as IDBRequest<SyncMeta | undefined>).result;
+    store.put({ ...prev, id, facilityId, key, rev: prev?.rev ?? 0, pending: true, deleted } satisfies SyncMeta);
+    window.dispatchEvent(new Event(LOCAL_CHANGE_EVENT));
+  };
+}
+
+function sameContent(a: FormState | null, b: FormState | null) {
+  if (!a || !b) return a === b;
+  return diffStates(a, b).length === 0;
+}
+
+async function syncFetch(c: SyncConfig, path: string, init?: RequestInit) {
+  const res = await fetch(`${c.url.replace(/\/+$/, "")}/api${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(c.token ? { Authorization: `Bearer ${c.token}` } : {}) },
+  });
+  if (!res.ok && res.status !== 409) throw new Error(`同期サーバー: HTTP ${res.status}`);
+  return { status: res.status, body: await res.json() };
+}
+
+async function putSyncMeta(meta: SyncMeta) {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SYNC, "readwrite");
+  tx.objectStore(STORE_SYNC).put(meta);
+  await idbDone(tx);
+}
+
+async function readSyncMetas(): Promise<SyncMeta[]> {
+  const db = await openDb();
+  return idbRequest(db.transaction(STORE_SYNC).objectStore(STORE_SYNC).getAll() as IDBRequest<SyncMeta[]>);
+}
+
+// サーバーの版を端末に書き込む（同期状態も同じトランザクションで更新）
+// 編集中データが同じ点検なら差し替える（次に開いた時に古い版が読み込まれ、自動保存で戻されないように）
+async function applyRemote(remote: RemoteRecord, template: PlantTemplate): Promise<boolean> {
+  const v = remote.deleted ? null : validateFormState(remote.state, template);
+  if (v && !v.ok) return false;
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_CHANGES, STORE_SYNC], "readwrite");
+  if (v) {
+    const state = v.state;
+    putRecordWithLog(tx, remote.facilityId, state, "sync");
+    const kv = tx.objectStore(STORE_KV);
+    const key = workingKey(remote.facilityId);
+    kv.get(key).onsuccess = (e) => {
+      const w = validateFormState((e.target as IDBRequest).result, template);
+      if (w.ok && inspectionKey(w.state) === remote.key) kv.put(state, key);
+    };
+  } else removeRecordWithLog(tx, remote.facilityId, remote.key, true);
+  const meta: SyncMeta = {
+    id: recordId(remote.facilityId, remote.key),
+    facilityId: remote.facilityId,
+    key: remote.key,
+    rev: remote.rev,
+    pending: false,
+    deleted: remote.deleted,
+  };
+  tx.objectStore(STORE_SYNC).put(meta);
+  await idbDone(tx);
+  cacheArchive(remote.facilityId, remote.key, v ? v.state : null);
+  return true;
+}
+
+// 開いている点検に未保存の入力がある間にサーバーの版を受け取ったら、競合として残す
+// （版だけ進めると、後の自動保存がその版を基準に送られてサーバー側の変更を黙って上書きする）
+// state は受け取ったサーバーの版（削除なら null）。自動保存より先に読んでおいたものを渡す
+async function holdAsConflict(facilityId: string, key: string, state: FormState | null) {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SYNC, "readwrite");
+  const store = tx.objectStore(STORE_SYNC);
+  store.get(recordId(facilityId, key)).onsuccess = (e) => {
+    const meta = (e.target as IDBRequest<SyncMeta | undefined>).result;
+    if (!meta) return;
+    const conflict: RemoteRecord = { facilityId, key, rev: meta.rev, state, deleted: !state, updatedAt: "" };
+    store.put({ ...meta, pending: true, conflict } satisfies SyncMeta);
+  };
+  await idbDone(tx);
+}
+
+// 送信が済んだ版を記録する。送信中に手元が変わっていたら送信待ちのまま残す
+async function settlePush(meta: SyncMeta, sentAt: string, rev: number, conflict?: RemoteRecord) {
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_SYNC], "readwrite");
+  tx.objectStore(STORE_INSPECTIONS).get(meta.id).onsuccess = (e) => {
+    const now = (e.target as IDBRequest<InspectionRecord | undefined>).result?.updatedAt ?? "";
+    const next: SyncMeta = { ...meta, rev, pending: !!conflict || now !== sentAt, conflict };
+    tx.objectStore(STORE_SYNC).put(next);
+  };
+  await idbDone(tx);
+}
+
+type SyncReport = { pushed: number; pulled: number; pending: number; conflicts: SyncMeta[] };
+
+// 1施設分: 送信待ちを1件ずつ送ってから、前回以降にサーバーで変わった記録を受け取る
+async function syncFacility(c: SyncConfig, facilityId: string, report: SyncReport) {
+  const template = readSettings(facilityId).template;
+  const db = await openDb();
+  const tx = db.transaction([STORE_INSPECTIONS, STORE_SYNC, STORE_KV]);
+  const [records, metas, cursor] = await Promise.all([
+    idbRequest(tx.objectStore(STORE_INSPECTIONS).index("facility").getAll(facilityId) as IDBRequest<InspectionRecord[]>),
+    idbRequest(tx.objectStore(STORE_SYNC).getAll() as IDBRequest<SyncMeta[]>),
+    idbRequest(tx.objectStore(STORE_KV).get(`syncCursor:${facilityId}`) as IDBRequest<number | undefined>),
+  ]);
+  const metaById = new Map(metas.filter((m) => m.facilityId === facilityId).map((m) => [m.id, m]));
+  const recordById = new Map(records.map((r) => [r.id, r]));
+
+  // 送信: 同期状態のない記録（同期を始める前の記録）と、送信待ちの記録・削除
+  const outgoing: SyncMeta[] = [];
+  for (const r of records) {
+    const m = metaById.get(r.id);
+    if (!m) outgoing.push({ id: r.id, facilityId, key: r.id.slice(facilityId.length + 1), rev: 0, pending: true });
+    else if (m.pending && !m.conflict) outgoing.push(m);
+  }
+  for (const m of metaById.values()) if (m.pending && m.deleted && !m.conflict && !recordById.has(m.id)) outgoing.push(m);
+  for (const m of outgoing) {
+    const rec = recordById.get(m.id);
+    const state = m.deleted && !rec ? null : rec?.state ?? null;
+    const sentAt = rec?.updatedAt ?? "";
+    const { status, body } = await syncFetch(c, `/records/${encodeURIComponent(facilityId)}/${encodeURIComponent(m.key)}`, {
+      method: "PUT",
+      body: JSON.stringify({ baseRev: m.rev, state, deleted: !state, updatedAt: sentAt || new Date().toISOString() }),
+    });
+    if (status !== 409) {
+      await settlePush(m, sentAt, body.rev);
+      report.pushed++;
+      continue;
+    }
+    const remote = body.record as RemoteRecord | undefined;
+    // サーバー側に記録がない（サーバーを作り直した等）→ 版 0 から送り直す
+    if (!remote) await putSyncMeta({ ...m, rev: 0, pending: true });
+    // 内容が同じなら版だけ合わせる
+    else if (sameContent(state, remote.state)) await settlePush(m, sentAt, remote.rev);
+    else await settlePush(m, sentAt, m.rev, remote);
+  }
+
+  // 受信
+  const { body } = await syncFetch(c, `/records?facility=${encodeURIComponent(facilityId)}&since=${cursor ?? 0}`);
+  const fresh = await readSyncMetas();
+  const current = new Map(fresh.map((m) => [m.id, m]));
+  const applied: string[] = [];
+  for (const remote of body.records as RemoteRecord[]) {
+    const m = current.get(recordId(facilityId, remote.key));
+    if (m && m.rev >= remote.rev) continue; // 自分が送った版
+    // 手元にも未送信の変更がある → 内容が違えば競合
+    if (m?.pending) {
+      const mine = recordById.get(m.id)?.state ?? null;
+      if (sameContent(mine, remote.state)) await putSyncMeta({ ...m, rev: remote.rev, pending: false, conflict: undefined });
+      else await putSyncMeta({ ...m, conflict: remote });
+      continue;
+    }
+    if (await applyRemote(remote, template)) {
+      applied.push(remote.key);
+      report.pulled++;
+    }
+  }
+  const done = db.transaction(STORE_KV, "readwrite");
+  done.objectStore(STORE_KV).put(body.seq, `syncCursor:${facilityId}`);
+  await idbDone(done);
+  if (applied.length) window.dispatchEvent(new CustomEvent(SYNC_APPLIED_EVENT, { detail: { facilityId, keys: applied } }));
+}
+
+let syncRunning: Promise<SyncReport> | null = null;
+// 全施設を同期する（同時に1回だけ）
+function syncAll(c: SyncConfig, facilities: Facility[]): Promise<SyncReport> {
+  syncRunning ??= (async () => {
+    const report: SyncReport = { pushed: 0, pulled: 0, pending: 0, conflicts: [] };
+    for (const f of facilities) await syncFacility(c, f.id, report);
+    const metas = (await readSyncMetas()).filter((m) => facilities.some((f) => f.id === m.facilityId));
+    report.pending = metas.filter((m) => m.pending && !m.conflict).length;
+    report.conflicts = metas.filter((m) => m.conflict);
+    return report;
+  })().finally(() => (syncRunning = null));
+  return syncRunning;
+}
+
+// 競合の解決: 手元を採用 → サーバーの版を基準に送り直す／サーバーを採用 → サーバーの版を書き込む
+async function resolveSyncConflict(meta: SyncMeta, take: "mine" | "theirs") {
+  const remote = meta.conflict!;
+  if (take === "theirs") {
+    await applyRemote(remote, readSettings(meta.facilityId).template);
+    window.dispatchEvent(new CustomEvent(SYNC_APPLIED_EVENT, { detail: { facilityId: meta.facilityId, keys: [meta.key] } }));
+    return;
+  }
+  await putSyncMeta({ ...meta, rev: remote.rev, pending: true, conflict: undefined });
+}
+
+function describeStorageError(e: unknown): string {
+  const name = (e as { name?: string })?.name;
+  if (name === "QuotaExceededError") return "保存容量が不足しています。古い履歴を削除してください。";
+  return `保存に失敗しました: ${(e as Error)?.message ?? String(e)}`;
+}
+
+async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+function formatBytes(n: number) {
+  if (n >= 1024 ** 3) return `${(n / 1024 ** 3).toFixed(1)} GB`;
+  if (n >= 1024 ** 2) return `${(n / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.ceil(n / 1024)} KB`;
+}
+
+function readArchive(): ArchiveMap {
+  return { ...archiveCache };
+}
+function listArchiveDates(): string[] {
+  return Array.from(new Set(Object.values(readArchive()).map((s) => s.header.date)))
+    .sort()
+    .reverse();
+}
+
+// 初期状態ファクトリ（テスト/リセット/初期化/取り込みで共通利用）
+function makeInitialState(t: PlantTemplate = DEFAULT_TEMPLATE, points: PointDef[] = DEFAULT_POINTS): FormState {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    roundId: "",
+    header: { ...EMPTY_HEADER },
+    sections: Object.fromEntries(t.sections.map((sec) => [sec.key, emptySection(t, sec)])),
+    points: activePoints(points),
+    pointData: Object.fromEntries(t.sections.filter((sec) => sec.perPoint).map((sec) => [sec.key, {}])),
+    visibility: visibilityFromTemplate(t),
+    extraNote: "",
+    signoff: { ...EMPTY_SIGNOFF, unlocks: [], incomplete: [] },
+    photos: [],
+    carried: {},
+  };
+}
+
+// 表示用に "NO." → "No." へ整形（内部キーは変更しない）
+function displayPointLabel(label: string) {
+  return label.replace(/^NO\./, "No.");
+}
+// displayPointLabel の逆（Excel 取り込みで登録済みのポイントに当たらなかった名前だけに使う）
+function internalPointLabel(label: string) {
+  return label.replace(/^No\./, "NO.");
+}
+
+// ---- 数値の入力検査 ----
+// IME の全角数字・全角ピリオド・長音/全角マイナスを半角に直し、数字/小数点/（必要なら）先頭のマイナスだけ残す
+function normalizeNumberInput(raw: string, allowNegative: boolean) {
+  let v = raw.normalize("NFKC").replace(/[ー−‐–—]/g, "-").replace(/。/g, ".");
+  v = v.replace(/[^0-9.\-]/g, "");
+  // マイナスは先頭のみ許可
+  if (!allowNegative) v = v.replace(/\-/g, "");
+  else v = v.replace(/(?!^)-/g, "");
+  // ドットは1個まで
+  const parts = v.split(".");
+  if (parts.length > 2) v = parts.shift() + "." + parts.join("");
+  return v;
+}
+
+// 入力条件に合わなければメッセージ、未入力/条件なしなら null
+function numberProblem(value: string, spec?: NumberSpec): string | null {
+  if (value === "") return null;
+  const n = toNumber(value);
+  if (n === null || !/^-?\d*\.?\d*$/.test(value)) return "数値ではありません";
+  if (!spec) return null;
+  if (n < 0 && !spec.allowNegative) return "負の値は入力できません";
+  const min = toNumber(spec.min);
+  const max = toNumber(spec.max);
+  if ((min !== null && n < min) || (max !== null && n > max)) return `入力範囲（${spec.min ?? ""}〜${spec.max ?? ""}）外です`;
+  const decimals = toNumber(spec.decimals);
+  if (decimals !== null && decimalsOf(value) > decimals) {
+    return decimals === 0 ? "整数で入力してください" : `小数は${decimals}桁までです`;
+  }
+  return null;
+}
+
+type InvalidEntry = { where: string; value: string; problem: string };
+
+// 点検記録の中の入力条件に合わない値（表示している項目・その日のポイントのみ）
+function invalidEntries(f: FormState, t: PlantTemplate): InvalidEntry[] {
+  const out: InvalidEntry[] = [];
+  const check = (where: string, value: string | undefined, spec?: NumberSpec) => {
+    const problem = numberProblem(value ?? "", spec);
+    if (problem) out.push({ where, value: value ?? "", problem });
+  };
+  for (const h of HEADER_FIELDS.filter((x) => NUMERIC_HEADER_FIELDS.includes(x.key))) {
+    check(`共通情報 ${h.label}`, f.header[h.key], HEADER_NUMBER_SPEC[h.key]);
+  }
+  for (const sec of t.sections) {
+    const fields = sectionFields(t, sec, f.visibility[sec.key]).filter((d) => d.kind === "number");
+    for (const d of fields) {
+      if (!sec.perPoint) check(`${sec.label} ${fieldLabel(d)}`, f.sections[sec.key]?.[d.key], d);
+      else
+        for (const p of f.points) {
+          check(`${sec.label} ${displayPointLabel(p.label)} ${fieldLabel(d)}`, f.pointData[sec.key]?.[p.id]?.[d.key], d);
+        }
+    }
+  }
+  return out;
+}
+
+// 出力前の確認。誤った値が残っていれば一覧を見せて続けるか選ぶ
+function confirmInvalidBeforeExport(forms: FormState[], t: PlantTemplate): boolean {
+  const lines = forms.flatMap((f) =>
+    invalidEntries(f, t).map((e) => `${forms.length > 1 ? `${f.header.date} ` : ""}${e.where}: ${e.value}（${e.problem}）`)
+  );
+  if (lines.length === 0) return true;
+  const shown = lines.slice(0, 10).join("\n") + (lines.length > 10 ? `\n…ほか ${lines.length - 10} 件` : "");
+  return confirm(`入力条件に合わない値が ${lines.length} 件あります。\n${shown}\n\nこのまま出力しますか？`);
+}
+
+// ---- 入力の完了状況 ----
+// 必須 = 表示している項目（可視マップ）と、共通情報の日付・天候。文章（備考）は任意
+const REQUIRED_HEADER_FIELDS: (keyof HeaderForm)[] = ["date", "weather"];
+
+// path は flattenState と同じ書式（入力欄の data-path にも使う）
+type RequiredEntry = { path: string; where: string; value: string; section?: SectionKey; point?: string };
+type Progress = { filled: number; total: number };
+
+function requiredEntries(f: FormState, t: PlantTemplate): RequiredEntry[] {
+  const out: RequiredEntry[] = [];
+  for (const h of HEADER_FIELDS.filter((x) => REQUIRED_HEADER_FIELDS.includes(x.key))) {
+    out.push({ path: `header.${h.key}`, where: `共通情報 ${h.label}`, value: f.header[h.key] });
+  }
+  for (const sec of t.sections) {
+    const fields = sectionFields(t, sec, f.visibility[sec.key]).filter((d) => d.kind !== "text");
+    if (!sec.perPoint) {
+      for (const d of fields) {
+        out.push({
+          path: `sections.${sec.key}.${d.key}`,
+          where: `${sec.label} ${fieldLabel(d)}`,
+          value: f.sections[sec.key]?.[d.key] ?? "",
+          section: sec.key,
+        });
+      }
+      continue;
+    }
+    for (const p of f.points) {
+      for (const d of fields) {
+        out.push({
+          path: `pointData.${sec.key}["${p.id}"].${d.key}`,
+          where: `${sec.label} ${displayPointLabel(p.label)} ${fieldLabel(d)}`,
+          value: f.pointData[sec.key]?.[p.id]?.[d.key] ?? "",
+          section: sec.key,
+          point: p.id,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+function missingEntries(f: FormState, t: PlantTemplate): RequiredEntry[] {
+  return requiredEntries(f, t).filter((e) => e.value.trim() === "");
+}
+
+function progressOf(entries: RequiredEntry[]): Progress {
+  return { filled: entries.filter((e) => e.value.trim() !== "").length, total: entries.length };
+}
+
+function withIncompleteNote(f: FormState, note: IncompleteNote): FormState {
+  return { ...f, signoff: { ...f.signoff, incomplete: [...f.signoff.incomplete, note] } };
+}
+
+// 未入力が残っていれば確認する（取りやめは null）。続けるなら 点検キー → 記録に残す内容 を返す
+// 承認済みの記録は編集不可なので、出力しても記録には残さない
+function confirmIncomplete(forms: FormState[], t: PlantTemplate, action: string): Map<string, IncompleteNote> | null {
+  const incomplete = forms
+    .map((f) => ({ f, missing: missingEntries(f, t) }))
+    .filter((x) => x.missing.length > 0);
+  const notes = new Map<string, IncompleteNote>();
+  if (incomplete.length === 0) return notes;
+  const lines = incomplete.map(
+    ({ f, missing }) =>
+      `${forms.length > 1 ? `${f.header.date} ${f.header.round} ` : ""}未入力 ${missing.length} 項目：` +
+      missing.slice(0, 5).map((e) => e.where).join("、") +
+      (missing.length > 5 ? " ほか" : "")
+  );
+  const shown = lines.slice(0, 10).join("\n") + (lines.length > 10 ? `\n…ほか ${lines.length - 10} 件` : "");
+  const open = incomplete.filter(({ f }) => !isLocked(f));
+  const logged = open.length > 0 ? "（記録に残ります）" : "";
+  if (!confirm(`未入力の項目があります。\n${shown}\n\n未入力のまま${action}しますか？${logged}`)) return null;
+  const at = formatStamp(new Date());
+  const by = readUser() || "（入力者未設定）";
+  for (const { f, missing } of open) notes.set(inspectionKey(f), { by, at, action, missing: missing.length });
+  return notes;
+}
+
+// 入力欄へ移動（data-path で探す。ポイント id に記号があっても比較で済むよう属性を総当たり）
+function jumpToInput(path: string) {
+  const el = Array.from(document.querySelectorAll("[data-path]")).find((x) => x.getAttribute("data-path") === path);
+  if (!el) return;
+  el.scrollIntoView({ behavior: "smooth", block: "center" });
+  el.querySelector<HTMLElement>("input, select, textarea")?.focus({ preventScroll: true });
+}
+
+// ---- 管理範囲の判定 ----
+function rangeFieldLabel(t: PlantTemplate, scope: RangeScope, field: string) {
+  if (scope === "header") return HEADER_FIELDS.find((h) => h.key === field)?.label ?? field;
+  const d = t.fields.find((x) => x.key === field);
+  return d ? fieldLabel(d) : field;
+}
+
+function rangeScopeLabel(t: PlantTemplate, scope: RangeScope) {
+  return scope === "header" ? "共通情報" : t.sections.find((d) => d.key === scope)?.label ?? scope;
+}
+
+// 逸脱していればメッセージ、範囲内/未入力/対象外なら null
+function checkRange(
+  rules: RangeRule[],
+  scope: RangeScope,
+  field: string,
+  value: unknown,
+  point?: string
+): string | null {
+  const n = toNumber(value);
+  if (n === null) return null;
+  for (const r of rules) {
+    if (r.scope !== scope || r.field !== field) continue;
+    if (r.point && r.point !== point) continue;
+    const min = toNumber(r.min);
+    const max = toNumber(r.max);
+    if (min !== null && n < min) return `下限 ${r.min} 未満`;
+    if (max !== null && n > max) return `上限 ${r.max} 超過`;
+  }
+  return null;
+}
+
+type Exceedance = {
+  scope: RangeScope;
+  field: string;
+  point?: string; // ポイント id
+  pointLabel?: string; // その日の表示名
+  value: string;
+  message: string;
+};
+
+// 画面に出ている項目だけを対象に逸脱を列挙
+function findExceedances(f: FormState, rules: RangeRule[], t: PlantTemplate): Exceedance[] {
+  const out: Exceedance[] = [];
+  for (const k of NUMERIC_HEADER_FIELDS) {
+    const message = checkRange(rules, "header", k, f.header[k]);
+    if (message) out.push({ scope: "header", field: k, value: f.header[k], message });
+  }
+  for (const def of t.sections) {
+    const vis = f.visibility?.[def.key] ?? {};
+    for (const { key: k } of sectionFields(t, def, vis).filter((d) => d.kind === "number")) {
+      if (def.perPoint) {
+        for (const p of f.points) {
+          const value = String(f.pointData?.[def.key]?.[p.id]?.[k] ?? "");
+          const message = checkRange(rules, def.key, k, value, p.id);
+          if (message) out.push({ scope: def.key, field: k, point: p.id, pointLabel: p.label, value, message });
+        }
+      } else {
+        const value = String(f.sections[def.key]?.[k] ?? "");
+        const message = checkRange(rules, def.key, k, value);
+        if (message) out.push({ scope: def.key, field: k, value, message });
+      }
+    }
+  }
+  return out;
+}
+
+function describeExceedance(t: PlantTemplate, e: Exceedance) {
+  const point = e.pointLabel ?? e.point;
+  const where = [rangeScopeLabel(t, e.scope), point ? displayPointLabel(point) : ""].filter(Boolean).join(" ");
+  return `${where} ${rangeFieldLabel(t, e.scope, e.field)}: ${e.value}（${e.message}）`;
+}
+
+// ---- Excel 取り込み（toSheetRows の逆変換）----
+type SheetImport = {
+  state: FormState;
+  unknown: string[]; // 解釈できなかったラベル
+  warnings: string[]; // 選択肢にない値など
+  facility?: string; // シートに記載の施設名
+  error?: string; // 取り込み不可の理由
+};
+
+// ポイントは表示名で登録済みのものに対応付け（未登録の名前はそのまま id にする）
+function fromSheetRows(
+  rows: string[][],
+  t: PlantTemplate = DEFAULT_TEMPLATE,
+  registry: PointDef[] = DEFAULT_POINTS
+): SheetImport {
+  const state = makeInitialState(t, registry);
+  const fieldByLabel = new Map(t.fields.map((d) => [fieldLabel(d), d] as const));
+  const unknown: string[] = [];
+  const warnings: string[] = [];
+  const seenFields: Partial<Record<SectionKey, Set<FieldKey>>> = {};
+  const seenPoints: PointRef[] = [];
+  let block: SectionKey | "header" | "note" | "derived" | "unknown" = "header";
+  let pointCols: (FieldDef | null)[] | null = null;
+  let facility: string | undefined;
+
+  const checkOption = (where: string, d: FieldDef, v: string) => {
+    if (d.kind === "select" && v && !d.options?.includes(v)) {
+      warnings.push(`${where} ${fieldLabel(d)}: 「${v}」は選択肢にありません`);
+    }
+  };
+
+  for (const raw of rows) {
+    const r = raw.map((c) => String(c ?? "").trim());
+    const head = r[0] ?? "";
+    if (r.every((c) => c === "")) {
+      pointCols = null;
+      continue;
+    }
+
+    const m = head.match(/^【(.+)】$/);
+    if (m) {
+      pointCols = null;
+      const def = t.sections.find((d) => d.label === m[1]);
+      if (def) block = def.key;
+      else if (m[1] === "自由記入 備考") block = "note";
+      else if (m[1] === DERIVED_BLOCK) block = "derived";
+      else {
+        block = "unknown";
+        unknown.push(head);
+      }
+      continue;
+    }
+
+    if (block === "unknown" || block === "derived") continue;
+
+    if (block === "header") {
+      if (head === "施設") {
+        facility = r[1] ?? "";
+        continue;
+      }
+      const so = SIGNOFF_FIELDS.find((x) => x.label === head);
+      if (so) {
+        state.signoff[so.key] = r[1] ?? "";
+        continue;
+      }
+      const h = HEADER_FIELDS.find((x) => x.label === head);
+      if (!h) unknown.push(head);
+      else (state.header as Record<string, string>)[h.key] = r[1] ?? "";
+      continue;
+    }
+
+    if (block === "note") {
+      if (head === "備考") state.extraNote = r[1] ?? "";
+      else unknown.push(head);
+      continue;
+    }
+
+    const key = block;
+    const seen = (seenFields[key] ??= new Set());
+    if (head === "ポイント") {
+      pointCols = r.slice(1).map((l) => {
+        const d = fieldByLabel.get(l);
+        if (l && !d) unknown.push(`${head}: ${l}`);
+        if (d) seen.add(d.key);
+        return d ?? null;
+      });
+      continue;
+    }
+    if (pointCols) {
+      // 登録名そのまま（利用者が "No.5" と付けた場合など）→ 出力時の表示名の順に照合
+      const known = registry.find((p) => p.label === head) ?? registry.find((p) => displayPointLabel(p.label) === head);
+      const label = known?.label ?? internalPointLabel(head);
+      const id = known?.id ?? label;
+      if (!seenPoints.some((p) => p.id === id)) seenPoints.push({ id, label });
+      const rec: SectionForm = {};
+      pointCols.forEach((d, i) => {
+        if (!d) return;
+        rec[d.key] = r[i + 1] ?? "";
+        checkOption(head, d, r[i + 1]);
+      });
+      state.pointData[key] = { ...(state.pointData[key] ?? {}), [id]: rec };
+      continue;
+    }
+    const d = fieldByLabel.get(head);
+    if (!d) {
+      unknown.push(head);
+      continue;
+    }
+    seen.add(d.key);
+    state.sections[key] = { ...state.sections[key], [d.key]: r[1] ?? "" };
+    checkOption(head, d, r[1]);
+  }
+
+  // 出力されていた項目 = 表示されていた項目
+  for (const [key, fields] of Object.entries(seenFields)) {
+    const sec = t.sections.find((x) => x.key === key);
+    if (!sec || !fields || fields.size === 0) continue;
+    for (const d of sectionFields(t, sec)) state.visibility[key][d.key] = fields.has(d.key);
+  }
+  if (seenPoints.length) state.points = seenPoints;
+  if (state.header.weather && !(WEATHER as readonly string[]).includes(state.header.weather)) {
+    warnings.push(`天候: 「${state.header.weather}」は選択肢にありません`);
+  }
+
+  const error = /^\d{4}-\d{2}-\d{2}$/.test(state.header.date) ? undefined : "日付（YYYY-MM-DD）が読み取れません";
+  return { state, unknown, warnings, facility, error };
+}
+
+// 取り込む巡回の識別: 同じ日に同名の巡回があればそれを上書き、なければ新しい巡回として追加
+function matchRound(archive: ArchiveMap, s: FormState): string {
+  const same = roundsOn(archive, s.header.date);
+  if (same.length === 0) return "";
+  return same.find((x) => x.header.round === s.header.round)?.roundId ?? `r_${Date.now().toString(36)}`;
+}
+
+function readWorkbookRows(data: ArrayBuffer): string[][] {
+  const wb = XLSX.read(data, { type: "array" });
+  const name = wb.SheetNames.includes("点検表") ? "点検表" : wb.SheetNames[0];
+  return XLSX.utils.sheet_to_json<string[]>(wb.Sheets[name], { header: 1, raw: false, defval: "" });
+}
+
+function ImportPanel({
+  template,
+  points,
+  facilityName,
+  onImport,
+}: {
+  template: PlantTemplate;
+  points: PointDef[];
+  facilityName: string;
+  onImport: (s: FormState) => void;
+}) {
+  const [result, setResult] = useState<(SheetImport & { fileName: string }) | null>(null);
+  const conflict = result && !result.error ? readArchive()[inspectionKey(result.state)] : undefined;
+  // 承認済みの記録は、同じ承認の点検表でなければ上書きしない（保存側でも拒否される）
+  const blocked = !!conflict && !canOverwrite(conflict, result!.state);
+
+  const pick = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = readWorkbookRows(await file.arrayBuffer());
+      const r = fromSheetRows(rows, template, points);
+      r.state.roundId = matchRound(readArchive(), r.state);
+      setResult({ ...r, fileName: file.name });
+    } catch (e) {
+      alert(`読み込みに失敗しました: ${String(e)}`);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 border rounded-2xl p-3 flex flex-wrap gap-2 items-center">
+      <span className="text-sm text-gray-600">Excel取り込み</span>
+      <input
+        type="file"
+        accept=".xlsx"
+        className="text-sm"
+        onChange={(e) => {
+          pick(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+      <span className="text-xs text-gray-500 ml-auto">本アプリで出力した点検表(.xlsx)を履歴に追加します</span>
+
+      {result && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] overflow-auto p-4 space-y-3">
+            <h3 className="font-semibold">取り込み内容の確認</h3>
+            <div className="text-sm">
+              {result.fileName} → {result.error ? "—" : `${result.state.header.date} ${result.state.header.round}`}
+            </div>
+            {result.error && <div className="text-sm text-red-700">{result.error}</div>}
+            {result.facility && result.facility !== facilityName && (
+              <div className="text-sm border border-amber-300 bg-amber-50 rounded-xl p-2">
+                この点検表は「{result.facility}」のものです。現在の施設「{facilityName}」に取り込みます。
+              </div>
+            )}
+            {conflict && (
+              <div className="text-sm border border-amber-300 bg-amber-50 rounded-xl p-2">
+                {blocked
+                  ? `${result.state.header.date} ${result.state.header.round} は承認済みのため取り込めません（承認: ${conflict.signoff.approver} ${conflict.signoff.approvedAt}）。承認を解除してから取り込んでください。`
+                  : `${result.state.header.date} ${result.state.header.round} は既に保存されています。取り込むと上書きされます。`}
+                {!blocked && isLocked(conflict) && `（承認済み: ${conflict.signoff.approver} ${conflict.signoff.approvedAt}）`}
+              </div>
+            )}
+            {result.unknown.length > 0 && (
+              <div className="text-sm">
+                <div className="font-semibold">不明なラベル（無視されます）</div>
+                <ul className="list-disc pl-5">
+                  {result.unknown.map((u, i) => (
+                    <li key={i}>{u}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.warnings.length > 0 && (
+              <div className="text-sm">
+                <div className="font-semibold">注意</div>
+                <ul className="list-disc pl-5">
+                  {result.warnings.map((w, i) => (
+                    <li key={i}>{w}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-2 justify-end">
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setResult(null)}>
+                キャンセル
+              </button>
+              <button
+                className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                disabled={!!result.error || blocked}
+                onClick={() => {
+                  onImport(result.state);
+                  setResult(null);
+                }}
+              >
+                {conflict ? "上書きして取り込む" : "取り込む"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 全データのバックアップ（JSON 1ファイル）と、内容を確認してからの復元
+function BackupPanel({
+  onRestore,
+}: {
+  onRestore: (backup: BackupFile, mode: RestoreMode, items: RestoreItem[]) => Promise<void>;
+}) {
+  const [loaded, setLoaded] = useState<{ fileName: string; backup: BackupFile; issues: string[]; items: RestoreItem[] } | null>(
+    null
+  );
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [choice, setChoice] = useState<ConflictChoice>("newer");
+  // 競合ごとの個別指定（未指定は choice に従う）
+  const [picks, setPicks] = useState<Record<string, ConflictChoice>>({});
+  const [busy, setBusy] = useState(false);
+
+  const backup = () => {
+    setBusy(true);
+    createBackup()
+      .then((b) => downloadJson(b, `inspection_backup_${new Date().toISOString().slice(0, 10)}.json`))
+      .catch((e) => alert(describeStorageError(e)))
+      .finally(() => setBusy(false));
+  };
+
+  const pick = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const r = parseBackup(JSON.parse(await file.text()));
+      if (!r.ok) return alert(r.error);
+      setLoaded({ fileName: file.name, backup: r.backup, issues: r.issues, items: planRestore(await readAllRecords(), r.backup) });
+      setMode("merge");
+      setPicks({});
+    } catch (e) {
+      alert(`読み込みに失敗しました: ${String(e)}`);
+    }
+  };
+
+  const itemId = (i: RestoreItem) => `${i.facilityId}:${i.key}`;
+  const names = new Map(loaded?.backup.facilities.map((f) => [f.facility.id, f.facility.name]));
+  const added = loaded?.items.filter((i) => !i.mine) ?? [];
+  const conflicts = loaded?.items.filter((i) => i.mine && !i.same) ?? [];
+  const same = loaded ? loaded.items.length - added.length - conflicts.length : 0;
+  const writes = loaded
+    ? mode === "replace"
+      ? loaded.items
+      : loaded.items.filter((i) => takeTheirs(i, choice, picks[itemId(i)]))
+    : [];
+
+  const restore = async () => {
+    if (!loaded) return;
+    if (mode === "replace" && !confirm("この端末の全施設の記録・編集中データ・設定を消して、バックアップの内容に置き換えます。よろしいですか？")) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await onRestore(loaded.backup, mode, writes);
+      setLoaded(null);
+      alert(`復元しました（${writes.length} 件の記録を書き込み）`);
+    } catch (e) {
+      alert(describeStorageError(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 border rounded-2xl p-3 flex flex-wrap gap-2 items-center">
+      <span className="text-sm text-gray-600">バックアップ</span>
+      <button className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50" disabled={busy} onClick={backup}>
+        全データをバックアップ
+      </button>
+      <label className="px-3 py-2 rounded-xl border text-sm cursor-pointer hover:bg-gray-50">
+        バックアップから復元
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            pick(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </label>
+      <span className="text-xs text-gray-500 ml-auto">全施設の記録・編集中データ・設定・ポイント・写真を1ファイルに保存します</span>
+
+      {loaded && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[80vh] overflow-auto p-4 space-y-3">
+            <h3 className="font-semibold">復元内容の確認</h3>
+            <div className="text-sm text-gray-600">
+              {loaded.fileName}（作成 {loaded.backup.createdAt ? formatStamp(new Date(loaded.backup.createdAt)) : "不明"}・版{" "}
+              {loaded.backup.version}・写真 {loaded.backup.photos.length} 枚）
+            </div>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-1">施設</th>
+                  <th>記録</th>
+                  <th>新規</th>
+                  <th>同一</th>
+                  <th>競合</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loaded.backup.facilities.map(({ facility, records }) => {
+                  const mine = loaded.items.filter((i) => i.facilityId === facility.id);
+                  return (
+                    <tr key={facility.id} className="border-b">
+                      <td className="py-1">{facility.name}</td>
+                      <td>{records.length}</td>
+                      <td>{mine.filter((i) => !i.mine).length}</td>
+                      <td>{mine.filter((i) => i.same).length}</td>
+                      <td>{mine.filter((i) => i.mine && !i.same).length}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="text-sm">
+              新規 {added.length} 件・同一 {same} 件・競合 {conflicts.length} 件
+            </div>
+            {loaded.issues.length > 0 && (
+              <div className="text-sm">
+                <div className="font-semibold">注意</div>
+                <ul className="list-disc pl-5">
+                  {loaded.issues.map((w, i) => (
+                    <li key={i}>{w}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                統合（手元の記録に足す）
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                置き換え（手元の全データを消す）
+              </label>
+            </div>
+            {mode === "replace" ? (
+              <div className="text-sm border border-red-300 bg-red-50 rounded-xl p-2 text-red-800">
+                この端末の全施設の記録・編集中データ・設定を削除し、バックアップの内容にします（変更履歴は残ります）。
+              </div>
+            ) : (
+              conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    競合した日は
+                    <select
+                      className="border rounded-lg px-2 py-1"
+                      value={choice}
+                      onChange={(e) => setChoice(e.target.value as ConflictChoice)}
+                    >
+                      <option value="newer">新しい方を残す</option>
+                      <option value="mine">手元を残す</option>
+                      <option value="theirs">バックアップを残す</option>
+                    </select>
+                  </label>
+                  {conflicts.some((i) => isLocked(i.mine!.state)) && (
+                    <div className="text-xs text-gray-600">🔒 承認済みの記録は、個別に「バックアップ」を選んだ時だけ上書きします</div>
+                  )}
+                  <table className="w-full text-sm border-collapse">
+                    <thead>
+                      <tr className="text-left border-b">
+                        <th className="py-1">施設</th>
+                        <th>点検</th>
+                        <th>手元の更新</th>
+                        <th>バックアップの更新</th>
+                        <th>残す方</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflicts.map((i) => (
+                        <tr key={itemId(i)} className="border-b">
+                          <td className="py-1">{names.get(i.facilityId)}</td>
+                          <td>
+                            {i.theirs.state.header.date} {i.theirs.state.header.round}
+                            {isLocked(i.mine!.state) && " 🔒"}
+                          </td>
+                          <td>{formatStamp(new Date(i.mine!.updatedAt))}</td>
+                          <td>{i.theirs.updatedAt ? formatStamp(new Date(i.theirs.updatedAt)) : "不明"}</td>
+                          <td>
+                            <select
+                              className="border rounded-lg px-1 py-0.5"
+                              value={picks[itemId(i)] ?? ""}
+                              onChange={(e) => {
+                                const { [itemId(i)]: _, ...rest } = picks;
+                                setPicks(e.target.value ? { ...rest, [itemId(i)]: e.target.value as ConflictChoice } : rest);
+                              }}
+                            >
+                              <option value="">（上の設定: {takeTheirs(i, choice) ? "バックアップ" : "手元"}）</option>
+                              <option value="mine">手元</option>
+                              <option value="theirs">バックアップ</option>
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+            <div className="flex gap-2 justify-end items-center">
+              <span className="text-xs text-gray-500 mr-auto">書き込む記録 {writes.length} 件</span>
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setLoaded(null)}>
+                キャンセル
+              </button>
+              <button
+                className={`px-3 py-2 rounded-xl text-white disabled:opacity-50 ${
+                  mode === "replace" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+                }`}
+                disabled={busy}
+                onClick={restore}
+              >
+                {mode === "replace" ? "置き換えて復元" : "統合して復元"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ファイル名に使えない文字を置き換える（施設名をファイル名に入れるため）
+function fileSafe(name: string) {
+  return name.replace(/[\\/:*?"<>|\s]+/g, "_");
+}
+
+// ---- 計算値（曜日・PAC使用量）----
+// 日付は "YYYY-MM-DD" を UTC の通日に直して計算する（タイムゾーンで1日ずれないように）
+function dayNumber(date: string): number | null {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) / 86_400_000 : null;
+}
+function fromDayNumber(n: number) {
+  return new Date(n * 86_400_000).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string) {
+  const n = dayNumber(date);
+  return n === null ? "" : "日月火水木金土"[new Date(n * 86_400_000).getUTCDay()];
+}
 
-type SectionKey = typeof SECTION_DEFS[number]["key"];
+// 出力用の共通情報の値（曜日は日付から。日付が不正な古い記録は記入された値）
+function headerValue(f: FormState, key: keyof HeaderForm): string {
+  if (key === "weekday") return weekdayOf(f.header?.date ?? "") || (f.header?.weekday ?? "");
+  return f.header?.[key] ?? "";
+}
+
+const PAC_AVERAGE_DAYS = 7;
+
+type PacStats = {
+  remaining: number | null;
+  usage: number | null; // ㎥/日（前回記録日からの減り ÷ 経過日数）
+  refilled: boolean; // 残量が増えた＝補充（使用量は出さない）
+  average: number | null; // 直近 PAC_AVERAGE_DAYS 日の使用量の平均
+  forecast: string; // 発注レベル到達見込み日（発注レベル未設定/平均なしは空）
+  belowLevel: boolean;
+};
+
+// 日ごとの PAC 残量（その日の巡回のうち最後に記入のあるもの、日付順）
+function pacSeries(archive: ArchiveMap): { day: number; value: number }[] {
+  const byDate = new Map<string, number>();
+  for (const s of Object.values(archive).sort(compareInspections)) {
+    const v = toNumber(s.header.pacRemaining);
+    if (v !== null) byDate.set(s.header.date, v);
+  }
+  return [...byDate]
+    .map(([date, value]) => ({ day: dayNumber(date), value }))
+    .filter((x): x is { day: number; value: number } => x.day !== null)
+    .sort((a, b) => a.day - b.day);
+}
+
+function pacStats(archive: ArchiveMap, date: string, reorderLevel = ""): PacStats {
+  const series = pacSeries(archive);
+  const today = dayNumber(date);
+  const usageAt = (i: number) => {
+    if (i <= 0) return null;
+    const d = series[i - 1].value - series[i].value;
+    return d < 0 ? null : d / (series[i].day - series[i - 1].day);
+  };
+  const i = series.findIndex((x) => x.day === today);
+  const usages = series
+    .map((x, j) => ({ day: x.day, usage: usageAt(j) }))
+    .filter((x) => today !== null && x.day <= today && x.day > today - PAC_AVERAGE_DAYS && x.usage !== null);
+  const average = usages.length ? usages.reduce((a, x) => a + x.usage!, 0) / usages.length : null;
+  const remaining = i >= 0 ? series[i].value : null;
+  const level = toNumber(reorderLevel);
+  const belowLevel = remaining !== null && level !== null && remaining <= level;
+  const forecast =
+    remaining !== null && level !== null && !belowLevel && average && today !== null
+      ? fromDayNumber(today + Math.ceil((remaining - level) / average))
+      : "";
+  return {
+    remaining,
+    usage: i >= 0 ? usageAt(i) : null,
+    refilled: i > 0 && series[i].value > series[i - 1].value,
+    average,
+    forecast,
+    belowLevel,
+  };
+}
+
+// Excel/画面用の表示（小数2桁）
+function formatPac(stats: PacStats) {
+  const n = (v: number | null) => (v === null ? "" : v.toFixed(2));
+  return {
+    usage: stats.refilled ? "補充" : n(stats.usage),
+    average: n(stats.average),
+    forecast: stats.belowLevel ? "発注レベル以下" : stats.forecast,
+  };
+}
+
+// ---- 比較値（入力欄の横に出す過去の値）----
+type CompareBasis = "previous" | "lastWeek" | "average7";
+const COMPARE_BASIS_LABEL: Record<CompareBasis, string> = {
+  previous: "前回の点検",
+  lastWeek: "先週の同じ曜日",
+  average7: "直近7日の平均",
+};
+// 比較値からこの割合を超えて変わったら強調する
+const JUMP_RATIO = 0.3;
+
+type Comparison = {
+  label: string; // 例: "前回 10/14"
+  value: string;
+  delta: string; // 数値どうしの差（"+0.3" など）。出せなければ空
+  jump: boolean; // 大きな変化（選択項目は値が変わった）
+};
+
+function decimalsOf(v: string) {
+  return v.split(".")[1]?.length ?? 0;
+}
+
+function shortDate(date: string) {
+  return `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}`;
+}
+
+// 編集中の点検より前の記録から、項目ごとの比較値を返す関数を作る（get で項目を取り出す）
+function makeComparer(archive: ArchiveMap, form: FormState, basis: CompareBasis) {
+  const self = inspectionKey(form);
+  const prior = Object.entries(archive)
+    .filter(([key, s]) => key !== self && compareInspections(s, form) < 0)
+    .map(([, s]) => s)
+    .sort((a, b) => compareInspections(b, a));
+  const today = dayNumber(form.header.date);
+
+  return (get: (s: FormState) => unknown, current: string): Comparison | null => {
+    const value = (s: FormState) => String(get(s) ?? "");
+    let ref: { label: string; value: string } | null = null;
+    if (basis === "previous") {
+      const s = prior.find((x) => value(x) !== "");
+      if (s) ref = { label: `前回 ${shortDate(s.header.date)}`, value: value(s) };
+    } else if (basis === "lastWeek") {
+      const target = today === null ? "" : fromDayNumber(today - 7);
+      const s = prior.find((x) => x.header.date === target && value(x) !== "");
+      if (s) ref = { label: `先週 ${shortDate(target)}(${weekdayOf(target)})`, value: value(s) };
+    } else if (today !== null) {
+      const week = prior
+        .filter((x) => {
+          const d = dayNumber(x.header.date);
+          return d !== null && d >= today - 7 && d < today;
+        })
+        .map(value);
+      const nums = week.map(toNumber).filter((n): n is number => n !== null);
+      if (nums.length) {
+        const places = Math.max(...week.map(decimalsOf)) + 1;
+        ref = { label: `7日平均(${nums.length}件)`, value: (nums.reduce((a, n) => a + n, 0) / nums.length).toFixed(places) };
+      }
+    }
+    if (!ref) return null;
+    const a = toNumber(current);
+    const b = toNumber(ref.value);
+    if (a === null || b === null) {
+      // 選択項目などは値が変わったら強調
+      return { ...ref, delta: "", jump: b === null && current !== "" && current !== ref.value };
+    }
+    const d = a - b;
+    const places = Math.max(decimalsOf(current), decimalsOf(ref.value));
+    const delta = d === 0 ? "±0" : `${d > 0 ? "+" : "−"}${Math.abs(d).toFixed(places)}`;
+    return { ...ref, delta, jump: Math.abs(d) > Math.abs(b) * JUMP_RATIO };
+  };
+}
+
+// ---- 引き継ぎ（新しい点検に直近の記録の値を写す）----
+// 日付・巡回・時刻・曜日は引き継がない
+const CARRY_HEADER_FIELDS = HEADER_FIELDS.filter((h) => !["date", "round", "time", "weekday"].includes(h.key));
+
+// 既定: 天候・選択項目（臭気/色相）・送気量
+function defaultCarryOver(t: PlantTemplate): string[] {
+  return [
+    "header.weather",
+    ...t.sections.flatMap((sec) =>
+      t.fields.filter((d) => sec.fields.includes(d.key) && (d.kind === "select" || d.key === "aeration")).map((d) => `${sec.key}.${d.key}`)
+    ),
+  ];
+}
+
+// keys の項目を source から next へ写し、写した値を carried に記録する（空欄は写さない）
+function carryForward(next: FormState, source: FormState, keys: string[], t: PlantTemplate): FormState {
+  const out: FormState = { ...next, header: { ...next.header }, sections: { ...next.sections }, pointData: { ...next.pointData } };
+  const carried: Record<string, string> = {};
+  for (const k of keys) {
+    const [scope, field] = k.split(".");
+    if (scope === "header") {
+      const v = source.header[field as keyof HeaderForm] ?? "";
+      if (!v || !CARRY_HEADER_FIELDS.some((h) => h.key === field)) continue;
+      (out.header as Record<string, string>)[field] = v;
+      carried[`header.${field}`] = v;
+      continue;
+    }
+    const sec = t.sections.find((x) => x.key === scope);
+    if (!sec || !sec.fields.includes(field)) continue;
+    if (!sec.perPoint) {
+      const v = source.sections[scope]?.[field] ?? "";
+      if (!v) continue;
+      out.sections[scope] = { ...out.sections[scope], [field]: v };
+      carried[`sections.${scope}.${field}`] = v;
+      continue;
+    }
+    for (const p of out.points) {
+      const v = String(source.pointData?.[scope]?.[p.id]?.[field] ?? "");
+      if (!v) continue;
+      const pd = out.pointData[scope] ?? {};
+      out.pointData[scope] = { ...pd, [p.id]: { ...(pd[p.id] ?? {}), [field]: v } };
+      carried[`pointData.${scope}["${p.id}"].${field}`] = v;
+    }
+  }
+  return { ...out, carried };
+}
+
+// 確認済み（値を変えた）引き継ぎ印を外す
+function pruneCarried(s: FormState): FormState {
+  const flat = flattenState(s);
+  const keep = Object.entries(s.carried).filter(([path, v]) => flat[path] === v);
+  return keep.length === Object.keys(s.carried).length ? s : { ...s, carried: Object.fromEntries(keep) };
+}
+
+// 日報の【計算値】ブロック（取り込み時は読み飛ばす。履歴から計算し直すため）
+const DERIVED_BLOCK = "計算値";
+
+// ---- 月報（1行=項目、1列=日）----
+const MISSING_MARK = "欠測";
+
+function daysInMonth(month: string): number {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m, 0).getDate();
+}
+
+// 1列=1スナップショットの表本体（共通情報〜備考）。月報と1日分まとめ出力で共通
+function toColumnRows(snaps: (FormState | undefined)[], t: PlantTemplate, archive?: ArchiveMap): string[][] {
+  const present = snaps.filter((s): s is FormState => !!s);
+
+  // その月に一度でも表示された項目を出す（記録なしの月はテンプレートどおり）
+  const visible = (key: SectionKey, k: FieldKey) =>
+    present.length === 0 || present.some((s) => s.visibility?.[key]?.[k] !== false);
+  // id 毎にまとめ、月内に改称があれば「旧名／新名」と併記する
+  const points = new Map<string, string[]>();
+  for (const p of present.length ? present.flatMap((s) => s.points ?? []) : activePoints(DEFAULT_POINTS)) {
+    const labels = points.get(p.id) ?? [];
+    if (!labels.includes(p.label)) points.set(p.id, [...labels, p.label]);
+  }
+  const cell = (s: FormState | undefined, get: (s: FormState) => unknown) =>
+    s ? String(get(s) ?? "") : "";
+
+  const rows: string[][] = [];
+  rows.push(["【共通情報】"]);
+  for (const h of HEADER_FIELDS) {
+    if (h.key === "date") continue;
+    rows.push([h.label, ...snaps.map((s) => cell(s, (x) => headerValue(x, h.key)))]);
+  }
+  // PAC使用量は日単位（同じ日の巡回には同じ値）
+  if (archive) {
+    const pac = snaps.map((s) => (s ? formatPac(pacStats(archive, s.header.date)) : null));
+    rows.push(["PAC使用量(㎥/日)", ...pac.map((p) => p?.usage ?? "")]);
+    rows.push([`PAC使用量 ${PAC_AVERAGE_DAYS}日平均(㎥/日)`, ...pac.map((p) => p?.average ?? "")]);
+  }
+  rows.push([""]);
+
+  for (const def of t.sections) {
+    rows.push([`【${def.label}】`]);
+    const cols = sectionFields(t, def).filter((d) => visible(def.key, d.key));
+    // ポイント記録のセクションはポイント行のみ（日報と同じ扱い）
+    if (!def.perPoint) {
+      for (const d of cols) {
+        rows.push([fieldLabel(d), ...snaps.map((s) => cell(s, (x) => x.sections?.[def.key]?.[d.key]))]);
+      }
+    } else {
+      for (const [id, labels] of points) {
+        const name = labels.map(displayPointLabel).join("／");
+        for (const d of cols) {
+          rows.push([
+            `${name} ${fieldLabel(d)}`,
+            ...snaps.map((s) => cell(s, (x) => x.pointData?.[def.key]?.[id]?.[d.key])),
+          ]);
+        }
+      }
+    }
+    rows.push([""]);
+  }
+
+  rows.push(["【自由記入 備考】"]);
+  rows.push(["備考", ...snaps.map((s) => cell(s, (x) => x.extraNote))]);
+  return rows;
+}
+
+// 月内の日別スナップショットから月報の行データを生成（純粋関数）
+// 同じ日に複数の巡回があれば最初の巡回を載せる
+function toMonthlySheetRows(archive: ArchiveMap, month: string, t: PlantTemplate, facilityName = ""): string[][] {
+  const n = daysInMonth(month);
+  const days = Array.from({ length: n }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+  const rounds = days.map((d) => roundsOn(archive, d));
+  const rows: string[][] = [];
+  rows.push([`${facilityName} ${month} 月報`.trim()]);
+  rows.push(["項目", ...days.map((_, i) => `${i + 1}日`)]);
+  const mark = (n: number) => (n === 0 ? MISSING_MARK : n === 1 ? "○" : `○×${n}`);
+  rows.push(["記録", ...rounds.map((r) => mark(r.length))]);
+  rows.push([""]);
+  return [...rows, ...toColumnRows(rounds.map((r) => r[0]), t, archive)];
+}
+
+// 1日分の全巡回（1列=1巡回）
+function toDaySheetRows(archive: ArchiveMap, date: string, t: PlantTemplate, facilityName = ""): string[][] {
+  const rounds = roundsOn(archive, date);
+  const rows: string[][] = [];
+  rows.push([`${facilityName} ${date} 全巡回`.trim()]);
+  rows.push(["項目", ...rounds.map(roundLabel)]);
+  rows.push([""]);
+  return [...rows, ...toColumnRows(rounds, t, archive)];
+}
+
+function exportDayExcel(date: string, t: PlantTemplate, facilityName: string) {
+  const archive = readArchive();
+  const rows = toDaySheetRows(archive, date, t, facilityName);
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  const col0 = rows.reduce((acc, r) => Math.max(acc, (r[0] || "").length), 8);
+  (ws as any)["!cols"] = [{ wch: col0 }, ...rows[1].slice(1).map(() => ({ wch: 14 }))];
+  XLSX.utils.book_append_sheet(wb, ws, "全巡回");
+  const photos = roundsOn(archive, date).flatMap((s, i) =>
+    s.photos.map((ref) => ({ ref, where: `${roundLabel(s, i)} ${photoWhere(t, s, ref)}` }))
+  );
+  return downloadWorkbook(wb, `inspection_${fileSafe(facilityName)}_${date}_全巡回.xlsx`, photos);
+}
+
+function exportMonthlyExcel(month: string, t: PlantTemplate, facilityName: string) {
+  const rows = toMonthlySheetRows(readArchive(), month, t, facilityName);
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  const col0 = rows.reduce((acc, r) => Math.max(acc, (r[0] || "").length), 8);
+  (ws as any)["!cols"] = [{ wch: col0 }, ...rows[1].slice(1).map(() => ({ wch: 9 }))];
+  XLSX.utils.book_append_sheet(wb, ws, "月報");
+  const days = daysInMonth(month);
+  appendStatsSheet(wb, computeStats(readArchive(), `${month}-01`, `${month}-${String(days).padStart(2, "0")}`, t), facilityName);
+  const photos = inspectionsInMonth(readArchive(), month).flatMap((s) =>
+    s.photos.map((ref) => ({ ref, where: [s.header.date, s.header.round, photoWhere(t, s, ref)].filter(Boolean).join(" ") }))
+  );
+  return downloadWorkbook(wb, `inspection_monthly_${fileSafe(facilityName)}_${month}.xlsx`, photos);
+}
+
+function MonthlyExportPanel({
+  currentDate,
+  onExportMonth,
+  onPrintMonth,
+}: {
+  currentDate: string;
+  onExportMonth: (month: string) => void; // 月報 Excel
+  onPrintMonth: (month: string) => void; // 月の帳票PDF（1点検=1枚）
+}) {
+  const [month, setMonth] = useState<string>(currentDate.slice(0, 7));
+  useEffect(() => setMonth(currentDate.slice(0, 7)), [currentDate]);
+  const recorded = listArchiveDates().filter((d) => d.startsWith(month)).length;
+  return (
+    <div className="bg-white/80 border rounded-2xl p-3 flex flex-wrap gap-2 items-center">
+      <span className="text-sm text-gray-600">月報</span>
+      <input
+        type="month"
+        className="border rounded-xl px-3 py-2"
+        value={month}
+        onChange={(e) => setMonth(e.target.value)}
+      />
+      <button
+        className="px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700"
+        disabled={!month}
+        onClick={() => month && onExportMonth(month)}
+      >
+        月報Excelエクスポート
+      </button>
+      <button
+        className="px-3 py-2 rounded-xl bg-slate-700 text-white hover:bg-slate-800"
+        disabled={!month}
+        onClick={() => month && onPrintMonth(month)}
+      >
+        帳票PDF（月分）
+      </button>
+      <span className="text-xs text-gray-500 ml-auto">
+        {month ? `記録 ${recorded} / ${daysInMonth(month)} 日（記録のない日は「${MISSING_MARK}」）` : ""}
+      </span>
+    </div>
+  );
+}
+
+// ---- トレンド（アーカイブ横断の推移グラフ・SVG）----
+const TREND_COLORS = ["#2563eb", "#dc2626", "#059669", "#d97706", "#7c3aed", "#0891b2", "#db2777"];
+
+type TrendSeries = { name: string; values: { key: string; date: string; value: number }[] }; // key = inspectionKey（同じ日の巡回を区別）
+type TrendGroup = { title: string; series: TrendSeries[] };
+
+function toNumber(v: unknown): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// 期間内のスナップショット（巡回ごと）から系列を作る（ポイント表はポイント毎、それ以外はセクション毎）
+function buildTrendGroups(
+  archive: ArchiveMap,
+  field: FieldKey,
+  from: string,
+  to: string,
+  t: PlantTemplate
+): TrendGroup[] {
+  const snaps = Object.values(archive)
+    .filter((s) => (!from || s.header.date >= from) && (!to || s.header.date <= to))
+    .sort(compareInspections);
+  const collect = (get: (s: FormState) => unknown) =>
+    snaps.flatMap((s) => {
+      const n = toNumber(get(s));
+      return n === null ? [] : [{ key: inspectionKey(s), date: s.header.date, value: n }];
+    });
+
+  const groups: TrendGroup[] = [];
+  for (const sec of t.sections.filter((d) => d.perPoint)) {
+    // id 毎に1系列（名前は期間内で最後の表示名）
+    const points = new Map(snaps.flatMap((s) => s.points ?? []).map((p) => [p.id, p.label]));
+    groups.push({
+      title: sec.label,
+      series: Array.from(points, ([id, label]) => ({
+        name: displayPointLabel(label),
+        values: collect((s) => s.pointData?.[sec.key]?.[id]?.[field]),
+      })),
+    });
+  }
+  const plain = t.sections.filter((d) => !d.perPoint);
+  groups.push({
+    title: plain.map((d) => d.label).join("／"),
+    series: plain.map((d) => ({
+      name: d.label,
+      values: collect((s) => s.sections?.[d.key]?.[field]),
+    })),
+  });
+  return groups
+    .map((g) => ({ ...g, series: g.series.filter((x) => x.values.length > 0) }))
+    .filter((g) => g.series.length > 0);
+}
+
+function TrendChart({ group, unitLabel }: { group: TrendGroup; unitLabel: string }) {
+  const W = 720;
+  const H = 260;
+  const pad = { l: 48, r: 12, t: 12, b: 36 };
+  const all = group.series.flatMap((s) => s.values);
+  const dates = Array.from(new Set(all.map((v) => v.date))).sort();
+  let lo = Math.min(...all.map((v) => v.value));
+  let hi = Math.max(...all.map((v) => v.value));
+  if (lo === hi) {
+    lo -= 1;
+    hi += 1;
+  }
+  const t0 = Date.parse(dates[0]);
+  const t1 = Date.parse(dates[dates.length - 1]);
+  const x = (d: string) =>
+    t0 === t1 ? pad.l + (W - pad.l - pad.r) / 2 : pad.l + ((Date.parse(d) - t0) / (t1 - t0)) * (W - pad.l - pad.r);
+  const y = (v: number) => pad.t + (1 - (v - lo) / (hi - lo)) * (H - pad.t - pad.b);
+  const yTicks = Array.from({ length: 5 }, (_, i) => lo + ((hi - lo) * i) / 4);
+  const step = Math.max(1, Math.ceil(dates.length / 8));
+  const xTicks = dates.filter((_, i) => i % step === 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold">{group.title}</div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto bg-white border rounded-xl">
+        {yTicks.map((v) => (
+          <g key={v}>
+            <line x1={pad.l} x2={W - pad.r} y1={y(v)} y2={y(v)} stroke="#e5e7eb" />
+            <text x={pad.l - 6} y={y(v) + 4} fontSize="10" textAnchor="end" fill="#6b7280">
+              {Number(v.toFixed(2))}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((d) => (
+          <text key={d} x={x(d)} y={H - pad.b + 16} fontSize="10" textAnchor="middle" fill="#6b7280">
+            {d.slice(5)}
+          </text>
+        ))}
+        <text x={pad.l} y={H - 4} fontSize="10" fill="#6b7280">
+          {unitLabel}
+        </text>
+        {group.series.map((s, i) => {
+          const color = TREND_COLORS[i % TREND_COLORS.length];
+          return (
+            <g key={s.name}>
+              <polyline
+                fill="none"
+                stroke={color}
+                strokeWidth="2"
+                points={s.values.map((v) => `${x(v.date)},${y(v.value)}`).join(" ")}
+              />
+              {s.values.map((v) => (
+                <circle key={v.key} cx={x(v.date)} cy={y(v.value)} r="3" fill={color}>
+                  <title>{`${s.name} ${v.date}: ${v.value}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {group.series.map((s, i) => (
+          <span key={s.name} className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-3 rounded-sm"
+              style={{ background: TREND_COLORS[i % TREND_COLORS.length] }}
+            />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TrendPanel({ currentDate, template }: { currentDate: string; template: PlantTemplate }) {
+  const [open, setOpen] = useState(false);
+  const fields = numericFields(template);
+  const [field, setField] = useState<FieldKey>(() => fields.find((d) => d.key === "DO")?.key ?? fields[0]?.key ?? "");
+  const def = fields.find((d) => d.key === field);
+  const label = def ? fieldLabel(def) : field;
+  const [from, setFrom] = useState<string>(() => {
+    const d = currentDate ? new Date(currentDate) : new Date();
+    d.setDate(d.getDate() - 30);
+    return d.toISOString().slice(0, 10);
+  });
+  const [to, setTo] = useState<string>(currentDate);
+  const groups = open ? buildTrendGroups(readArchive(), field, from, to, template) : [];
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">トレンド</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : "表示"}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <SelectField
+              label="項目"
+              value={label}
+              onChange={(v) => setField(fields.find((d) => fieldLabel(d) === v)?.key ?? field)}
+              options={fields.map(fieldLabel)}
+            />
+            <TextField label="開始日" type="date" value={from} onChange={setFrom} />
+            <TextField label="終了日" type="date" value={to} onChange={setTo} />
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500">期間内に {label} の記録がありません</p>
+          ) : (
+            groups.map((g) => <TrendChart key={g.title} group={g} unitLabel={label} />)
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
 
-// ポイント記録を持つセクション
-const POINT_SECTIONS: SectionKey[] = ["aerobic_upper", "aerobic_lower"];
+// ---- 記録の検索 ----
+const SEARCH_OPS = [">", "≥", "<", "≤", "=", "≠"] as const;
+type SearchOp = typeof SEARCH_OPS[number];
 
-// --- 型定義 ---
-type HeaderForm = {
-  date: string; // YYYY-MM-DD
-  weekday: string; // ( )
-  weather: typeof WEATHER[number] | "";
-  airTemp: string; // 外気温 ℃
-  primarySettlingNo1: string; // 初沈界面 NO.1(m)
-  primarySettlingNo2: string; // 初沈界面 NO.2(m)
-  pacRemaining: string; // PAC残量(㎥)
-  elutionPH: string; // 脱離液 pH
-  elutionTemp: string; // 水温（脱離液）
-  waterContent: string; // 含水率 %
-};
+// point はポイント記録のセクションのみ（空 = いずれかのポイント）
+type SearchCondition = { id: string; scope: RangeScope; field: string; point?: string; op: SearchOp; value: string };
+type SearchQuery = { text: string; from: string; to: string; conditions: SearchCondition[] };
+type SearchMatch = { where: string; value: string; term?: string }; // term は文字列検索の語（強調用）
+type SearchHit = { key: string; state: FormState; matches: SearchMatch[] };
 
-type SectionForm = {
-  odor?: typeof ODOR[number] | "";
-  color?: (typeof COLOR[number] | typeof COLOR_INFLUENT[number]) | "";
-  temp?: string; // 水温 ℃
-  turbidity?: string; // 透視度
-  pH?: string;
-  DO?: string; // mg/L
-  residualChlorine?: string; // 残塩 mg/L
-  headLoss?: string; // ろ抗高
-  aeration?: string; // 送気量
-  comment?: string;
-};
+// 条件にできる項目（共通情報は天候と数値、セクションは文章以外）
+function searchFieldsOf(t: PlantTemplate, scope: RangeScope): string[] {
+  if (scope === "header") return ["weather", ...NUMERIC_HEADER_FIELDS];
+  const sec = t.sections.find((d) => d.key === scope);
+  return sec ? sectionFields(t, sec).filter((d) => d.kind !== "text").map((d) => d.key) : [];
+}
 
-type FieldKey = keyof SectionForm;
-
-// 表示名（Excelでも使用）
-const FIELD_LABEL: Record<FieldKey, string> = {
-  odor: "臭気",
-  color: "色相",
-  temp: "水温(℃)",
-  turbidity: "透視度",
-  pH: "pH",
-  DO: "DO(mg/L)",
-  residualChlorine: "残塩(mg/L)",
-  headLoss: "ろ抗高",
-  aeration: "送気量",
-  comment: "備考",
-};
+// 数値どうしは数値で、それ以外（選択肢）は文字列で比べる。未入力は該当しない
+function matchCondition(value: string, op: SearchOp, target: string): boolean {
+  if (value.trim() === "") return false;
+  const a = toNumber(value);
+  const b = toNumber(target);
+  if (op === "=" || op === "≠") {
+    const same = a !== null && b !== null ? a === b : value.trim() === target.trim();
+    return op === "=" ? same : !same;
+  }
+  if (a === null || b === null) return false;
+  if (op === ">") return a > b;
+  if (op === "≥") return a >= b;
+  if (op === "<") return a < b;
+  return a <= b;
+}
 
-const FIELD_ORDER: FieldKey[] = [
-  "odor",
-  "color",
-  "temp",
-  "turbidity",
-  "pH",
-  "DO",
-  "residualChlorine",
-  "headLoss",
-  "aeration",
-  "comment",
-];
+function describeCondition(t: PlantTemplate, c: SearchCondition, pointLabel?: string) {
+  const sec = t.sections.find((d) => d.key === c.scope);
+  const point = sec?.perPoint ? ` ${pointLabel ? displayPointLabel(pointLabel) : "いずれかのポイント"}` : "";
+  return `${rangeScopeLabel(t, c.scope)}${point} ${rangeFieldLabel(t, c.scope, c.field)} ${c.op} ${c.value}`;
+}
 
-// ポイント表に出す列（備考は除外）。各ポイントにも「臭気・色相」を持たせる
-const POINT_FIELD_ORDER: FieldKey[] = [
-  "odor",
-  "color",
-  "temp",
-  "turbidity",
-  "pH",
-  "DO",
-  "residualChlorine",
-  "headLoss",
-  "aeration",
-];
+// 条件はすべて満たすもの（AND）。文字列は自由記入 備考とセクション・ポイントごとの文章項目（大文字小文字は区別しない）
+function searchInspections(archive: ArchiveMap, q: SearchQuery, t: PlantTemplate): SearchHit[] {
+  const term = q.text.trim();
+  const conditions = q.conditions.filter((c) => c.field && c.value.trim() !== "");
+  if (!term && conditions.length === 0 && !q.from && !q.to) return [];
+  const hits: SearchHit[] = [];
+  for (const [key, s] of Object.entries(archive)) {
+    if ((q.from && s.header.date < q.from) || (q.to && s.header.date > q.to)) continue;
+    const matches: SearchMatch[] = [];
+    if (term) {
+      const texts: { where: string; value: string }[] = [{ where: "自由記入 備考", value: s.extraNote }];
+      for (const sec of t.sections) {
+        for (const d of t.fields.filter((x) => x.kind === "text" && sec.fields.includes(x.key))) {
+          if (!sec.perPoint) {
+            texts.push({ where: `${sec.label} ${fieldLabel(d)}`, value: s.sections[sec.key]?.[d.key] ?? "" });
+            continue;
+          }
+          for (const p of s.points) {
+            texts.push({
+              where: `${sec.label} ${displayPointLabel(p.label)} ${fieldLabel(d)}`,
+              value: String(s.pointData[sec.key]?.[p.id]?.[d.key] ?? ""),
+            });
+          }
+        }
+      }
+      const found = texts.filter((x) => x.value.toLowerCase().includes(term.toLowerCase()));
+      if (found.length === 0) continue;
+      matches.push(...found.map((x) => ({ ...x, term })));
+    }
+    let all = true;
+    for (const c of conditions) {
+      const sec = t.sections.find((d) => d.key === c.scope);
+      const candidates: { value: string; pointLabel?: string }[] =
+        c.scope === "header"
+          ? [{ value: s.header[c.field as keyof HeaderForm] ?? "" }]
+          : sec?.perPoint
+          ? s.points
+              .filter((p) => !c.point || p.id === c.point)
+              .map((p) => ({ value: String(s.pointData[c.scope]?.[p.id]?.[c.field] ?? ""), pointLabel: p.label }))
+          : [{ value: s.sections[c.scope]?.[c.field] ?? "" }];
+      const ok = candidates.filter((x) => matchCondition(x.value, c.op, c.value));
+      if (ok.length === 0) {
+        all = false;
+        break;
+      }
+      matches.push(...ok.map((x) => ({ where: describeCondition(t, c, x.pointLabel), value: x.value })));
+    }
+    if (all) hits.push({ key, state: s, matches });
+  }
+  return hits.sort((a, b) => compareInspections(a.state, b.state));
+}
 
-type VisibilityMap = Record<SectionKey, Partial<Record<FieldKey, boolean>>>;
+function describeQuery(q: SearchQuery, t: PlantTemplate): string[] {
+  return [
+    ...(q.text.trim() ? [`文字列: ${q.text.trim()}`] : []),
+    ...(q.from || q.to ? [`期間: ${q.from || "最初"} 〜 ${q.to || "最後"}`] : []),
+    ...q.conditions.filter((c) => c.field && c.value.trim() !== "").map((c) => describeCondition(t, c)),
+  ];
+}
 
-// 既定の可視設定
-const DEFAULT_VISIBILITY: VisibilityMap = {
-  influent: {
-    odor: true,
-    color: true,
-    temp: true,
-    turbidity: true,
-    pH: true,
-    DO: true,
-    residualChlorine: false,
-    headLoss: false,
-    aeration: false,
-    comment: false,
-  },
-  aerobic_upper: {
-    odor: true,
-    color: true,
-    temp: true,
-    turbidity: true,
-    pH: true,
-    DO: true,
-    residualChlorine: false,
-    headLoss: true,
-    aeration: false,
-    comment: false,
-  },
-  aerobic_lower: {
-    odor: true,
-    color: true,
-    temp: true,
-    turbidity: true,
-    pH: true,
-    DO: true,
-    residualChlorine: false,
-    headLoss: false,
-    aeration: true,
-    comment: false,
-  },
-  effluent: {
-    odor: true,
-    color: true,
-    temp: true,
-    turbidity: true,
-    pH: true,
-    DO: true,
-    residualChlorine: true,
-    headLoss: false,
-    aeration: false,
-    comment: false,
-  },
-};
+// 該当日をまとめて1つのブック（検索条件と一覧 + 1日=1シート、巡回=列）
+function exportSearchExcel(hits: SearchHit[], q: SearchQuery, t: PlantTemplate, facilityName: string) {
+  const archive = readArchive();
+  const dates = [...new Set(hits.map((h) => h.state.header.date))];
+  const wb = XLSX.utils.book_new();
+  const summary: string[][] = [
+    ["施設", facilityName],
+    ...describeQuery(q, t).map((line) => ["条件", line]),
+    ["該当", `${hits.length} 件（${dates.length} 日）`],
+    [""],
+    ["日付", "巡回", "該当箇所", "値"],
+    ...hits.flatMap((h) => h.matches.map((m) => [h.state.header.date, h.state.header.round, m.where, m.value])),
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(summary);
+  (ws as any)["!cols"] = [{ wch: 12 }, { wch: 10 }, { wch: 36 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(wb, ws, "検索結果");
+  for (const date of dates) {
+    const rows = toDaySheetRows(archive, date, t, facilityName);
+    const day = XLSX.utils.aoa_to_sheet(rows);
+    const col0 = rows.reduce((acc, r) => Math.max(acc, (r[0] || "").length), 8);
+    (day as any)["!cols"] = [{ wch: col0 }, ...rows[1].slice(1).map(() => ({ wch: 14 }))];
+    XLSX.utils.book_append_sheet(wb, day, date);
+  }
+  XLSX.writeFile(wb, `inspection_search_${fileSafe(facilityName)}_${formatStamp(new Date()).replace(/[-: ]/g, "")}.xlsx`);
+}
 
-// 既存データ移行 & 仕様反映用
-function patchedVisibility(vis?: VisibilityMap): VisibilityMap {
-  const merged: VisibilityMap = {
-    influent: { ...DEFAULT_VISIBILITY.influent, ...(vis?.influent ?? {}) },
-    aerobic_upper: { ...DEFAULT_VISIBILITY.aerobic_upper, ...(vis?.aerobic_upper ?? {}) },
-    aerobic_lower: { ...DEFAULT_VISIBILITY.aerobic_lower, ...(vis?.aerobic_lower ?? {}) },
-    effluent: { ...DEFAULT_VISIBILITY.effluent, ...(vis?.effluent ?? {}) },
-  };
-  // 強制マイグレーション: ポイントカードでは臭気/色相は常に表示
-  (["aerobic_upper", "aerobic_lower"] as SectionKey[]).forEach((k) => {
-    merged[k].odor = true;
-    merged[k].color = true;
-  });
-  return merged;
+// 文字列検索の語を強調（条件に当たった値は値ごと強調）
+function Highlight({ text, term }: { text: string; term?: string }) {
+  if (!term) return <mark className="bg-yellow-200 rounded px-0.5">{text}</mark>;
+  const lower = text.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let i = 0;
+  for (let j = lower.indexOf(term.toLowerCase()); j >= 0; j = lower.indexOf(term.toLowerCase(), i)) {
+    parts.push(text.slice(i, j));
+    parts.push(
+      <mark key={j} className="bg-yellow-200 rounded px-0.5">
+        {text.slice(j, j + term.length)}
+      </mark>
+    );
+    i = j + term.length;
+  }
+  parts.push(text.slice(i));
+  return <>{parts}</>;
 }
 
-// --- 状態/保存系ユーティリティ ---
+const SEARCH_RESULT_LIMIT = 200; // 画面に並べる上限（Excel は全件）
 
-type PointDataMap = Record<string, Partial<SectionForm>>; // label -> values
+function SearchPanel({
+  template,
+  points,
+  onOpen,
+  onExport,
+}: {
+  template: PlantTemplate;
+  points: PointDef[];
+  onOpen: (key: string) => void;
+  onExport: (hits: SearchHit[], q: SearchQuery) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [q, setQ] = useState<SearchQuery>({ text: "", from: "", to: "", conditions: [] });
+  const t = template;
+  const scopes: RangeScope[] = ["header", ...t.sections.map((d) => d.key)];
+  const hits = open ? searchInspections(readArchive(), q, t) : [];
+  const update = (id: string, patch: Partial<SearchCondition>) =>
+    setQ((p) => ({ ...p, conditions: p.conditions.map((c) => (c.id === id ? { ...c, ...patch } : c)) }));
+  const add = () =>
+    setQ((p) => ({
+      ...p,
+      conditions: [...p.conditions, { id: `cond-${Date.now()}`, scope: "effluent", field: "pH", op: ">", value: "" }],
+    }));
+  const pointName = (id?: string) => (id ? displayPointLabel(points.find((p) => p.id === id)?.label ?? id) : "");
+  const optionsOf = (c: SearchCondition) =>
+    c.scope === "header" && c.field === "weather"
+      ? [...WEATHER]
+      : t.fields.find((d) => d.key === c.field && c.scope !== "header")?.options;
 
-type FormState = {
-  header: HeaderForm;
-  sections: Record<SectionKey, SectionForm>;
-  points: string[]; // 固定: NO.1-1 等
-  pointData: Partial<Record<SectionKey, PointDataMap>>;
-  visibility: VisibilityMap;
-  extraNote: string; // 自由記入 備考
-};
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">記録の検索</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : "検索"}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <TextField
+              label="備考・文章に含む文字"
+              placeholder="例：汚泥"
+              value={q.text}
+              onChange={(text) => setQ((p) => ({ ...p, text }))}
+            />
+            <TextField label="開始日" type="date" value={q.from} onChange={(from) => setQ((p) => ({ ...p, from }))} />
+            <TextField label="終了日" type="date" value={q.to} onChange={(to) => setQ((p) => ({ ...p, to }))} />
+          </div>
+          {q.conditions.map((c) => {
+            const options = optionsOf(c);
+            return (
+              <div key={c.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end border rounded-xl p-2">
+                <SelectField
+                  label="対象"
+                  value={rangeScopeLabel(t, c.scope)}
+                  onChange={(v) => {
+                    const scope = scopes.find((sc) => rangeScopeLabel(t, sc) === v) ?? c.scope;
+                    update(c.id, { scope, field: searchFieldsOf(t, scope)[0] ?? "", point: "", value: "" });
+                  }}
+                  options={scopes.map((sc) => rangeScopeLabel(t, sc))}
+                />
+                <SelectField
+                  label="項目"
+                  value={rangeFieldLabel(t, c.scope, c.field)}
+                  onChange={(v) =>
+                    update(c.id, {
+                      field: searchFieldsOf(t, c.scope).find((k) => rangeFieldLabel(t, c.scope, k) === v) ?? c.field,
+                      value: "",
+                    })
+                  }
+                  options={searchFieldsOf(t, c.scope).map((k) => rangeFieldLabel(t, c.scope, k))}
+                />
+                {t.sections.find((d) => d.key === c.scope)?.perPoint ? (
+                  <SelectField
+                    label="ポイント（空=いずれか）"
+                    value={pointName(c.point)}
+                    onChange={(v) => update(c.id, { point: points.find((p) => pointName(p.id) === v)?.id ?? "" })}
+                    options={["", ...points.map((p) => pointName(p.id))]}
+                  />
+                ) : (
+                  <div />
+                )}
+                <SelectField
+                  label="比較"
+                  value={c.op}
+                  onChange={(v) => update(c.id, { op: v as SearchOp })}
+                  options={options ? ["=", "≠"] : SEARCH_OPS}
+                />
+                {options ? (
+                  <SelectField
+                    label="値"
+                    value={c.value}
+                    onChange={(value) => update(c.id, { value })}
+                    options={["", ...options]}
+                  />
+                ) : (
+                  <NumberField label="値" allowNegative value={c.value} onChange={(value) => update(c.id, { value })} />
+                )}
+                <button
+                  className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
+                  onClick={() => setQ((p) => ({ ...p, conditions: p.conditions.filter((x) => x.id !== c.id) }))}
+                >
+                  削除
+                </button>
+              </div>
+            );
+          })}
+          <div className="flex flex-wrap gap-2 items-center">
+            <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={add}>
+              ＋ 条件を追加
+            </button>
+            <span className="text-sm text-gray-600">
+              {hits.length} 件（{new Set(hits.map((h) => h.state.header.date)).size} 日）
+            </span>
+            <button
+              className="ml-auto px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+              disabled={hits.length === 0}
+              onClick={() => onExport(hits, q)}
+            >
+              該当日をExcelにまとめる
+            </button>
+          </div>
+          {hits.length > 0 && (
+            <ul className="divide-y border rounded-xl text-sm">
+              {hits.slice(0, SEARCH_RESULT_LIMIT).map((h) => (
+                <li key={h.key} className="p-2 flex gap-3 items-start">
+                  <div className="w-36 shrink-0">
+                    <div className="font-semibold">
+                      {h.state.header.date}（{headerValue(h.state, "weekday")}）
+                    </div>
+                    <div className="text-xs text-gray-500">{[h.state.header.round, h.state.header.time].filter(Boolean).join(" ")}</div>
+                  </div>
+                  <ul className="flex-1 space-y-0.5">
+                    {h.matches.length === 0 && <li className="text-gray-500">期間内の記録</li>}
+                    {h.matches.map((m, i) => (
+                      <li key={i}>
+                        <span className="text-gray-600">{m.where}：</span>
+                        <Highlight text={m.value} term={m.term} />
+                      </li>
+                    ))}
+                  </ul>
+                  <button className="px-3 py-1 rounded-xl border hover:bg-gray-50" onClick={() => onOpen(h.key)}>
+                    開く
+                  </button>
+                </li>
+              ))}
+              {hits.length > SEARCH_RESULT_LIMIT && (
+                <li className="p-2 text-xs text-gray-500">ほか {hits.length - SEARCH_RESULT_LIMIT} 件（Excel には全件）</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
 
-const EMPTY_HEADER: HeaderForm = {
-  date: new Date().toISOString().slice(0, 10),
-  weekday: "",
-  weather: "",
-  airTemp: "",
-  primarySettlingNo1: "",
-  primarySettlingNo2: "",
-  pacRemaining: "",
-  elutionPH: "",
-  elutionTemp: "",
-  waterContent: "",
-};
+// ---- 統計（期間内の全点検。1巡回=1件）----
+type NumericStat = { group: string; item: string; count: number; min: number; max: number; mean: number; sd: number | null; places: number };
+type Frequency = { group: string; item: string; counts: [string, number][]; total: number };
+type StatsReport = { from: string; to: string; inspections: number; numeric: NumericStat[]; frequencies: Frequency[] };
 
-const EMPTY_SECTION: SectionForm = {
-  odor: "",
-  color: "",
-  temp: "",
-  turbidity: "",
-  pH: "",
-  DO: "",
-  residualChlorine: "",
-  headLoss: "",
-  aeration: "",
-  comment: "",
-};
+function describeNumbers(values: string[]): Omit<NumericStat, "group" | "item"> | null {
+  const nums = values.map(toNumber).filter((n): n is number => n !== null);
+  if (nums.length === 0) return null;
+  const mean = nums.reduce((a, n) => a + n, 0) / nums.length;
+  // 標準偏差は標本（n−1）。1件だけなら出さない
+  const sd = nums.length > 1 ? Math.sqrt(nums.reduce((a, n) => a + (n - mean) ** 2, 0) / (nums.length - 1)) : null;
+  return {
+    count: nums.length,
+    min: Math.min(...nums),
+    max: Math.max(...nums),
+    mean,
+    sd,
+    places: Math.max(...values.map(decimalsOf)),
+  };
+}
 
-const DEFAULT_POINTS = ["NO.1-1", "NO.1-2", "NO.2-1", "NO.2-2"];
+function computeStats(archive: ArchiveMap, from: string, to: string, t: PlantTemplate): StatsReport {
+  const snaps = Object.values(archive)
+    .filter((s) => (!from || s.header.date >= from) && (!to || s.header.date <= to))
+    .sort(compareInspections);
+  const numeric: NumericStat[] = [];
+  const frequencies: Frequency[] = [];
+  const addNumeric = (group: string, item: string, values: string[]) => {
+    const d = describeNumbers(values);
+    if (d) numeric.push({ group, item, ...d });
+  };
+  const addFrequency = (group: string, item: string, values: string[], options: string[] = []) => {
+    const filled = values.filter((v) => v !== "");
+    if (filled.length === 0) return;
+    const counts = new Map<string, number>(options.map((o) => [o, 0]));
+    for (const v of filled) counts.set(v, (counts.get(v) ?? 0) + 1);
+    frequencies.push({ group, item, counts: [...counts], total: filled.length });
+  };
 
-// localStorage 用キー
-const STORAGE_KEY = "inspection-checklist-v1";
-// 日別アーカイブ（date -> snapshot）
-const STORAGE_KEY_ARCHIVE = "inspection-checklist-v1:archive";
+  for (const h of HEADER_FIELDS.filter((x) => NUMERIC_HEADER_FIELDS.includes(x.key))) {
+    addNumeric("共通情報", h.label, snaps.map((s) => s.header[h.key]));
+  }
+  addFrequency("共通情報", "天候", snaps.map((s) => s.header.weather), [...WEATHER]);
+
+  for (const sec of t.sections) {
+    const fields = sectionFields(t, sec);
+    if (!sec.perPoint) {
+      for (const d of fields) {
+        const values = snaps.map((s) => String(s.sections?.[sec.key]?.[d.key] ?? ""));
+        if (d.kind === "number") addNumeric(sec.label, fieldLabel(d), values);
+        if (d.kind === "select") addFrequency(sec.label, fieldLabel(d), values, d.options);
+      }
+      continue;
+    }
+    // ポイントは id 毎（名前は期間内で最後の表示名）
+    const points = new Map(snaps.flatMap((s) => s.points ?? []).map((p) => [p.id, p.label]));
+    for (const d of fields) {
+      for (const [id, label] of points) {
+        const values = snaps.map((s) => String(s.pointData?.[sec.key]?.[id]?.[d.key] ?? ""));
+        const group = `${sec.label} ${displayPointLabel(label)}`;
+        if (d.kind === "number") addNumeric(group, fieldLabel(d), values);
+        if (d.kind === "select") addFrequency(group, fieldLabel(d), values, d.options);
+      }
+    }
+  }
+  return { from, to, inspections: snaps.length, numeric, frequencies };
+}
 
-type ArchiveMap = Record<string, FormState>;
+// 平均・標準偏差は記録の桁 +1 桁で丸める
+function formatStat(s: NumericStat) {
+  const f = (n: number, extra = 0) => n.toFixed(s.places + extra);
+  return { min: f(s.min), max: f(s.max), mean: f(s.mean, 1), sd: s.sd === null ? "" : f(s.sd, 1) };
+}
 
-function readArchive(): ArchiveMap {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY_ARCHIVE);
-    return raw ? (JSON.parse(raw) as ArchiveMap) : {};
-  } catch {
-    return {};
+function toStatsSheetRows(r: StatsReport, facilityName = ""): string[][] {
+  const rows: string[][] = [];
+  rows.push(["施設", facilityName]);
+  rows.push(["期間", `${r.from || "最初"} 〜 ${r.to || "最後"}`]);
+  rows.push(["点検数", String(r.inspections)]);
+  rows.push([""]);
+  rows.push(["【数値項目】"]);
+  rows.push(["区分", "項目", "件数", "最小", "最大", "平均", "標準偏差"]);
+  for (const s of r.numeric) {
+    const f = formatStat(s);
+    rows.push([s.group, s.item, String(s.count), f.min, f.max, f.mean, f.sd]);
+  }
+  rows.push([""]);
+  rows.push(["【選択項目の頻度】"]);
+  rows.push(["区分", "項目", "値", "件数", "割合(%)"]);
+  for (const q of r.frequencies) {
+    for (const [value, n] of q.counts) {
+      rows.push([q.group, q.item, value, String(n), ((n / q.total) * 100).toFixed(1)]);
+    }
   }
+  return rows;
 }
-function writeArchive(a: ArchiveMap) {
-  try {
-    localStorage.setItem(STORAGE_KEY_ARCHIVE, JSON.stringify(a));
-  } catch {}
+
+function appendStatsSheet(wb: XLSX.WorkBook, r: StatsReport, facilityName: string) {
+  const ws = XLSX.utils.aoa_to_sheet(toStatsSheetRows(r, facilityName));
+  (ws as any)["!cols"] = [{ wch: 24 }, { wch: 14 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(wb, ws, "統計");
 }
-function listArchiveDates(): string[] {
-  return Object.keys(readArchive()).sort().reverse();
+
+function StatisticsPanel({
+  currentDate,
+  template,
+  facilityName,
+}: {
+  currentDate: string;
+  template: PlantTemplate;
+  facilityName: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(`${currentDate.slice(0, 7)}-01`);
+  const [to, setTo] = useState(currentDate);
+  const report = open ? computeStats(readArchive(), from, to, template) : null;
+  const setMonth = () => {
+    const m = currentDate.slice(0, 7);
+    setFrom(`${m}-01`);
+    setTo(`${m}-${String(daysInMonth(m)).padStart(2, "0")}`);
+  };
+  const setYear = () => {
+    setFrom(`${currentDate.slice(0, 4)}-01-01`);
+    setTo(`${currentDate.slice(0, 4)}-12-31`);
+  };
+  const exportStats = () => {
+    if (!report) return;
+    const wb = XLSX.utils.book_new();
+    appendStatsSheet(wb, report, facilityName);
+    XLSX.writeFile(wb, `inspection_stats_${fileSafe(facilityName)}_${from}_${to}.xlsx`);
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">統計</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : "表示"}
+        </button>
+      </div>
+      {open && report && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <TextField label="開始日" type="date" value={from} onChange={setFrom} />
+            <TextField label="終了日" type="date" value={to} onChange={setTo} />
+            <div className="flex gap-2">
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={setMonth}>
+                今月
+              </button>
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={setYear}>
+                今年
+              </button>
+            </div>
+            <button
+              className="px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+              disabled={report.inspections === 0}
+              onClick={exportStats}
+            >
+              統計Excelエクスポート
+            </button>
+          </div>
+          {report.inspections === 0 ? (
+            <p className="text-sm text-gray-500">期間内に記録がありません</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">点検数 {report.inspections} 件（1巡回=1件）</p>
+              <div className="overflow-auto">
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="text-left border-b">
+                      {["区分", "項目", "件数", "最小", "最大", "平均", "標準偏差"].map((h) => (
+                        <th key={h} className="py-1 pr-3">
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.numeric.map((s) => {
+                      const f = formatStat(s);
+                      return (
+                        <tr key={`${s.group}/${s.item}`} className="border-b">
+                          <td className="py-1 pr-3">{s.group}</td>
+                          <td className="pr-3">{s.item}</td>
+                          <td className="pr-3 text-right">{s.count}</td>
+                          <td className="pr-3 text-right">{f.min}</td>
+                          <td className="pr-3 text-right">{f.max}</td>
+                          <td className="pr-3 text-right">{f.mean}</td>
+                          <td className="pr-3 text-right">{f.sd}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {report.frequencies.map((q) => (
+                  <div key={`${q.group}/${q.item}`} className="border rounded-xl p-2 text-sm">
+                    <div className="font-semibold">
+                      {q.group} {q.item}（{q.total}件）
+                    </div>
+                    {q.counts.map(([value, n]) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <span className="w-24 shrink-0">{value}</span>
+                        <div className="flex-1 bg-gray-100 rounded h-2">
+                          <div className="bg-blue-500 h-2 rounded" style={{ width: `${(n / q.total) * 100}%` }} />
+                        </div>
+                        <span className="w-16 text-right">
+                          {n}（{Math.round((n / q.total) * 100)}%）
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
 }
 
-// 表示用に "NO." → "No." へ整形（内部キーは変更しない）
-function displayPointLabel(label: string) {
-  return label.replace(/^NO\./, "No.");
+// ---- 管理範囲の設定 ----
+function RangeRulesPanel({
+  template,
+  rules,
+  points,
+  onChange,
+}: {
+  template: PlantTemplate;
+  rules: RangeRule[];
+  points: PointDef[];
+  onChange: (rules: RangeRule[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const t = template;
+  const scopes: RangeScope[] = ["header", ...t.sections.map((d) => d.key)];
+  const fieldsOf = (scope: RangeScope): string[] => {
+    if (scope === "header") return NUMERIC_HEADER_FIELDS;
+    const sec = t.sections.find((d) => d.key === scope);
+    return sec ? sectionFields(t, sec).filter((d) => d.kind === "number").map((d) => d.key) : [];
+  };
+  const update = (id: string, patch: Partial<RangeRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  const add = () =>
+    onChange([...rules, { id: `rule-${Date.now()}`, scope: "effluent", field: "pH", min: "", max: "" }]);
+  const pointName = (id?: string) => {
+    if (!id) return "";
+    const label = points.find((p) => p.id === id)?.label ?? id;
+    return displayPointLabel(label);
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">管理範囲（上下限）</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : `設定（${rules.length}件）`}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-3">
+          {rules.map((r) => (
+            <div key={r.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end border rounded-xl p-2">
+              <SelectField
+                label="対象"
+                value={rangeScopeLabel(t, r.scope)}
+                onChange={(v) => {
+                  const scope = scopes.find((sc) => rangeScopeLabel(t, sc) === v) ?? r.scope;
+                  update(r.id, { scope, field: fieldsOf(scope)[0] ?? "", point: "" });
+                }}
+                options={scopes.map((sc) => rangeScopeLabel(t, sc))}
+              />
+              <SelectField
+                label="項目"
+                value={rangeFieldLabel(t, r.scope, r.field)}
+                onChange={(v) =>
+                  update(r.id, {
+                    field: fieldsOf(r.scope).find((k) => rangeFieldLabel(t, r.scope, k) === v) ?? r.field,
+                  })
+                }
+                options={fieldsOf(r.scope).map((k) => rangeFieldLabel(t, r.scope, k))}
+              />
+              {t.sections.find((d) => d.key === r.scope)?.perPoint ? (
+                <SelectField
+                  label="ポイント（空=全て）"
+                  value={pointName(r.point)}
+                  onChange={(v) => update(r.id, { point: points.find((p) => pointName(p.id) === v)?.id ?? "" })}
+                  options={["", ...points.filter((p) => !p.retired || p.id === r.point).map((p) => pointName(p.id))]}
+                />
+              ) : (
+                <div />
+              )}
+              <NumberField label="下限" allowNegative value={r.min ?? ""} onChange={(v) => update(r.id, { min: v })} />
+              <NumberField label="上限" allowNegative value={r.max ?? ""} onChange={(v) => update(r.id, { max: v })} />
+              <button
+                className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
+                onClick={() => onChange(rules.filter((x) => x.id !== r.id))}
+              >
+                削除
+              </button>
+            </div>
+          ))}
+          <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={add}>
+            ＋ 範囲を追加
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ---- 点検ポイントの管理（追加・改称・並べ替え・廃止）----
+// 削除はせず廃止扱いにする（過去の日の記録と表示名を残すため）
+function PointManager({ points, onChange }: { points: PointDef[]; onChange: (points: PointDef[]) => void }) {
+  const [open, setOpen] = useState(false);
+  const update = (id: string, patch: Partial<PointDef>) =>
+    onChange(points.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  const move = (i: number, dir: -1 | 1) => {
+    const j = i + dir;
+    if (j < 0 || j >= points.length) return;
+    const list = [...points];
+    [list[i], list[j]] = [list[j], list[i]];
+    onChange(list);
+  };
+  // 既定名は使われていない最小の NO.n（取り込みは名前で対応付けるので、引退・改称したポイントとも重ねない）
+  const add = () => {
+    const used = new Set(points.map((p) => displayPointLabel(p.label)));
+    let n = 1;
+    while (used.has(displayPointLabel(`NO.${n}`))) n++;
+    onChange([...points, { id: `pt_${Date.now().toString(36)}`, label: `NO.${n}` }]);
+  };
+  const active = points.filter((p) => !p.retired).length;
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">点検ポイント</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : `設定（${active}箇所）`}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-2">
+          {points.map((p, i) => (
+            <div
+              key={p.id}
+              className={`grid grid-cols-[1fr_auto_auto_auto] gap-2 items-end border rounded-xl p-2 ${
+                p.retired ? "bg-gray-100 text-gray-500" : ""
+              }`}
+            >
+              <TextField
+                label={p.retired ? "表示名（廃止）" : "表示名"}
+                value={p.label}
+                onChange={(label) => update(p.id, { label })}
+              />
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => move(i, -1)}>
+                ↑
+              </button>
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => move(i, 1)}>
+                ↓
+              </button>
+              {p.retired ? (
+                <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => update(p.id, { retired: false })}>
+                  再開
+                </button>
+              ) : (
+                <button
+                  className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
+                  onClick={() =>
+                    confirm(`「${displayPointLabel(p.label)}」を廃止しますか？（過去の記録は残ります）`) &&
+                    update(p.id, { retired: true })
+                  }
+                >
+                  廃止
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 items-center">
+            <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={add}>
+              ＋ ポイントを追加
+            </button>
+            <span className="text-xs text-gray-500 ml-auto">変更は作業中の日に反映されます（保存済みの日は当時の名前のまま）</span>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ---- テンプレート編集（セクション・項目・単位・選択肢）----
+function downloadJson(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }), filename);
+}
+
+const FIELD_KIND_LABEL: Record<FieldKind, string> = { number: "数値", select: "選択", text: "文章" };
+
+function TemplateEditor({ template, onApply }: { template: PlantTemplate; onApply: (t: PlantTemplate) => void }) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<PlantTemplate>(template);
+  const [error, setError] = useState<string | null>(null);
+  useEffect(() => setDraft(template), [template]);
+
+  const newKey = (prefix: string) => `${prefix}_${Date.now().toString(36)}`;
+  const setField = (key: FieldKey, patch: Partial<FieldDef>) =>
+    setDraft((p) => ({ ...p, fields: p.fields.map((d) => (d.key === key ? { ...d, ...patch } : d)) }));
+  const setSection = (key: SectionKey, patch: Partial<SectionDef>) =>
+    setDraft((p) => ({ ...p, sections: p.sections.map((d) => (d.key === key ? { ...d, ...patch } : d)) }));
+  const moveSection = (i: number, dir: -1 | 1) =>
+    setDraft((p) => {
+      const list = [...p.sections];
+      const j = i + dir;
+      if (j < 0 || j >= list.length) return p;
+      [list[i], list[j]] = [list[j], list[i]];
+      return { ...p, sections: list };
+    });
+  const removeField = (key: FieldKey) =>
+    setDraft((p) => ({
+      ...p,
+      fields: p.fields.filter((d) => d.key !== key),
+      sections: p.sections.map((sec) => ({ ...sec, fields: sec.fields.filter((k) => k !== key) })),
+    }));
+
+  const apply = () => {
+    const v = validateTemplate(draft);
+    if (!v.ok) return setError(v.error);
+    setError(null);
+    onApply(v.template);
+  };
+  const importJson = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const v = validateTemplate(JSON.parse(await file.text()));
+      if (!v.ok) return setError(v.error);
+      setError(null);
+      setDraft(v.template);
+    } catch (e) {
+      setError(`JSON を読み込めません: ${String(e)}`);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">様式テンプレート（{template.name || "無題"}）</h2>
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : "編集"}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-4">
+          <TextField label="テンプレート名" value={draft.name} onChange={(name) => setDraft((p) => ({ ...p, name }))} />
+
+          <div className="space-y-2">
+            <div className="font-semibold text-sm">項目</div>
+            {draft.fields.map((d) => (
+              <div key={d.key} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end border rounded-xl p-2">
+                <TextField label={`表示名（${d.key}）`} value={d.label} onChange={(label) => setField(d.key, { label })} />
+                <TextField label="単位" value={d.unit ?? ""} onChange={(unit) => setField(d.key, { unit })} />
+                <SelectField
+                  label="種類"
+                  value={FIELD_KIND_LABEL[d.kind]}
+                  onChange={(v) =>
+                    setField(d.key, {
+                      kind: (Object.keys(FIELD_KIND_LABEL) as FieldKind[]).find((k) => FIELD_KIND_LABEL[k] === v) ?? d.kind,
+                    })
+                  }
+                  options={Object.values(FIELD_KIND_LABEL)}
+                />
+                {d.kind === "select" ? (
+                  <TextField
+                    label="選択肢（、区切り）"
+                    value={(d.options ?? []).join("、")}
+                    onChange={(v) => setField(d.key, { options: v.split(/[,、]/) })}
+                  />
+                ) : (
+                  <div />
+                )}
+                <button
+                  className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
+                  onClick={() => confirm(`項目「${d.label}」を削除しますか？`) && removeField(d.key)}
+                >
+                  削除
+                </button>
+                {d.kind === "number" && (
+                  <div className="col-span-2 md:col-span-5 grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+                    <NumberField label="入力下限" allowNegative value={d.min ?? ""} onChange={(min) => setField(d.key, { min })} />
+                    <NumberField label="入力上限" allowNegative value={d.max ?? ""} onChange={(max) => setField(d.key, { max })} />
+                    <NumberField
+                      label="小数の桁数"
+                      value={d.decimals ?? ""}
+                      spec={{ decimals: "0" }}
+                      onChange={(decimals) => setField(d.key, { decimals })}
+                    />
+                    <label className="flex items-center gap-2 text-sm py-2">
+                      <input
+                        type="checkbox"
+                        checked={!!d.allowNegative}
+                        onChange={(e) => setField(d.key, { allowNegative: e.target.checked })}
+                      />
+                      負の値を許可
+                    </label>
+                  </div>
+                )}
+              </div>
+            ))}
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+              onClick={() =>
+                setDraft((p) => ({ ...p, fields: [...p.fields, { key: newKey("f"), label: "新しい項目", kind: "number" }] }))
+              }
+            >
+              ＋ 項目を追加
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-semibold text-sm">セクション</div>
+            {draft.sections.map((sec, i) => (
+              <div key={sec.key} className="border rounded-xl p-2 space-y-2">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto_auto] gap-2 items-end">
+                  <TextField label={`表示名（${sec.key}）`} value={sec.label} onChange={(label) => setSection(sec.key, { label })} />
+                  <label className="flex items-center gap-2 text-sm py-2">
+                    <input
+                      type="checkbox"
+                      checked={!!sec.perPoint}
+                      onChange={(e) => setSection(sec.key, { perPoint: e.target.checked })}
+                    />
+                    ポイント毎に記録
+                  </label>
+                  <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => moveSection(i, -1)}>
+                    ↑
+                  </button>
+                  <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => moveSection(i, 1)}>
+                    ↓
+                  </button>
+                  <button
+                    className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
+                    onClick={() =>
+                      confirm(`セクション「${sec.label}」を削除しますか？（記録済みの値は残ります）`) &&
+                      setDraft((p) => ({ ...p, sections: p.sections.filter((x) => x.key !== sec.key) }))
+                    }
+                  >
+                    削除
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-3 text-sm">
+                  {draft.fields.map((d) => (
+                    <label key={d.key} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={sec.fields.includes(d.key)}
+                        onChange={(e) =>
+                          setSection(sec.key, {
+                            fields: e.target.checked ? [...sec.fields, d.key] : sec.fields.filter((k) => k !== d.key),
+                          })
+                        }
+                      />
+                      {fieldLabel(d)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+              onClick={() =>
+                setDraft((p) => ({
+                  ...p,
+                  sections: [...p.sections, { key: newKey("s"), label: "新しいセクション", fields: [] }],
+                }))
+              }
+            >
+              ＋ セクションを追加
+            </button>
+          </div>
+
+          {error && <div className="text-sm text-red-700">{error}</div>}
+          <div className="flex flex-wrap gap-2 items-center">
+            <button className="px-3 py-2 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700" onClick={apply}>
+              適用
+            </button>
+            <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setDraft(DEFAULT_TEMPLATE)}>
+              既定に戻す
+            </button>
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+              onClick={() => downloadJson(draft, `template_${draft.name || "plant"}.json`)}
+            >
+              JSON書き出し
+            </button>
+            <label className="px-3 py-2 rounded-xl border hover:bg-gray-50 cursor-pointer text-sm">
+              JSON読み込み
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  importJson(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <span className="text-xs text-gray-500 ml-auto">「適用」までは画面に反映されません</span>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
 }
 
 // ---- 履歴パネル（先に宣言しておく：参照時未定義エラーを避ける） ----
 function HistoryPanel({
   currentDate,
+  currentKey,
   onLoad,
   onDelete,
   onSave,
+  onExport,
+  onExportDay,
+  onAddRound,
+  facilities = [],
+  onTransfer,
 }: {
   currentDate: string;
-  onLoad: (d: string) => void;
-  onDelete: (d: string) => void;
+  currentKey: string; // 編集中の巡回（inspectionKey）
+  onLoad: (key: string) => void;
+  onDelete: (key: string) => void;
   onSave: () => void;
+  onExport: (key: string) => void;
+  onExportDay: (d: string) => void;
+  onAddRound: () => void;
+  facilities?: Facility[]; // コピー/移動先（表示中の施設以外）
+  onTransfer?: (d: string, target: Facility, move: boolean) => void;
 }) {
   const dates = listArchiveDates();
   const [picked, setPicked] = useState<string>(currentDate);
   useEffect(() => setPicked(currentDate), [currentDate]);
+  const [targetId, setTargetId] = useState<string>("");
+  const target = facilities.find((f) => f.id === targetId) ?? facilities[0];
+  const rounds = picked ? roundsOn(readArchive(), picked) : [];
   return (
     <div className="bg-white/80 border rounded-2xl p-3 flex flex-wrap gap-2 items-center">
       <span className="text-sm text-gray-600">履歴</span>
@@ -283,123 +3933,434 @@ function HistoryPanel({
       >
         この日付で保存
       </button>
-      <button
-        className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700"
-        disabled={!picked}
-        onClick={() => picked && onLoad(picked)}
-      >
-        読み込み
+      <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => onAddRound()}>
+        ＋ 巡回を追加
       </button>
       <button
-        className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700"
-        disabled={!picked}
-        onClick={() => picked && confirm(`${picked} を削除しますか？`) && onDelete(picked)}
+        className="px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700"
+        disabled={rounds.length === 0}
+        onClick={() => picked && onExportDay(picked)}
       >
-        削除
+        1日分まとめてExcel
       </button>
+      {target && onTransfer && (
+        <>
+          <select
+            className="border rounded-xl px-3 py-2"
+            value={target.id}
+            onChange={(e) => setTargetId(e.target.value)}
+          >
+            {facilities.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+            disabled={!picked}
+            onClick={() => picked && onTransfer(picked, target, false)}
+          >
+            へコピー
+          </button>
+          <button
+            className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+            disabled={!picked}
+            onClick={() =>
+              picked && confirm(`${picked} を ${target.name} へ移動しますか？`) && onTransfer(picked, target, true)
+            }
+          >
+            へ移動
+          </button>
+        </>
+      )}
       <span className="text-xs text-gray-500 ml-auto">
-        日ごとに自動保存され、ここから読み込みできます
+        入力は自動保存（IndexedDB）され、ここから読み込みできます
       </span>
+      {rounds.length > 0 && (
+        <ul className="w-full divide-y border rounded-xl bg-white">
+          {rounds.map((s, i) => {
+            const key = inspectionKey(s);
+            return (
+              <li key={key} className="flex flex-wrap gap-2 items-center px-3 py-2 text-sm">
+                <span className={key === currentKey ? "font-semibold" : ""}>
+                  {roundLabel(s, i)}
+                  {key === currentKey && "（編集中）"}
+                </span>
+                <button
+                  className="ml-auto px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                  onClick={() => onLoad(key)}
+                >
+                  読み込み
+                </button>
+                <button className="px-3 py-1 rounded-lg border hover:bg-gray-50" onClick={() => onExport(key)}>
+                  Excel
+                </button>
+                <button
+                  className="px-3 py-1 rounded-lg bg-gray-600 text-white hover:bg-gray-700"
+                  onClick={() => confirm(`${picked} ${roundLabel(s, i)} を削除しますか？`) && onDelete(key)}
+                >
+                  削除
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ---- 変更履歴の表示（版ごとの差分・2版の比較・復元）----
+function DiffTable({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) return <div className="text-xs text-gray-500">差分はありません</div>;
+  return (
+    <table className="w-full text-xs border-collapse">
+      <thead>
+        <tr className="bg-gray-50">
+          <th className="border px-2 py-1 text-left">項目</th>
+          <th className="border px-2 py-1 text-left">変更前</th>
+          <th className="border px-2 py-1 text-left">変更後</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((c) => (
+          <tr key={c.path}>
+            <td className="border px-2 py-1 font-mono">{c.path}</td>
+            <td className="border px-2 py-1 text-red-700 line-through">{c.old}</td>
+            <td className="border px-2 py-1 text-emerald-700">{c.new}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ChangeHistoryPanel({
+  facilityId,
+  recordKey,
+  onRestore,
+}: {
+  facilityId: string;
+  recordKey: string; // 表示中の点検（inspectionKey）
+  onRestore: (state: FormState) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ChangeEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [compare, setCompare] = useState<{ from: string; to: string }>({ from: "", to: "" });
+  const load = () =>
+    listChanges(facilityId, recordKey).then(
+      (list) => {
+        setEntries(list);
+        setError(null);
+      },
+      (e) => setError(describeStorageError(e))
+    );
+  useEffect(() => {
+    if (open) load();
+  }, [open, recordKey]);
+
+  const label = (e: ChangeEntry) => `#${e.seq} ${new Date(e.at).toLocaleString()} ${e.user || "（未設定）"}`;
+  const bySeq = (seq: string) => entries.find((e) => String(e.seq) === seq);
+  const seqOf = (v: string) => String(entries.find((e) => label(e) === v)?.seq ?? "");
+  const from = bySeq(compare.from);
+  const to = bySeq(compare.to);
+
+  return (
+    <Card>
+      <div className="flex flex-wrap gap-2 items-end">
+        <h2 className="text-lg font-semibold mr-auto">変更履歴（{recordKey}）</h2>
+        {open && (
+          <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={load}>
+            更新
+          </button>
+        )}
+        <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen((o) => !o)}>
+          {open ? "閉じる" : "表示"}
+        </button>
+      </div>
+      {open && (
+        <div className="mt-4 space-y-3">
+          {error && <div className="text-sm text-red-700">{error}</div>}
+          {entries.length === 0 && !error && <div className="text-sm text-gray-500">履歴はまだありません</div>}
+          <ul className="divide-y border rounded-xl">
+            {[...entries].reverse().map((e) => (
+              <li key={e.seq} className="px-3 py-2 text-sm space-y-2">
+                <div className="flex flex-wrap gap-2 items-center">
+                  <span>{label(e)}</span>
+                  <span className="text-xs text-gray-500">{e.deleted ? "削除" : `${e.changes.length}項目`}</span>
+                  <button
+                    className="ml-auto px-3 py-1 rounded-lg border hover:bg-gray-50"
+                    onClick={() => setExpanded((x) => (x === e.seq ? null : e.seq ?? null))}
+                  >
+                    差分
+                  </button>
+                  <button
+                    className="px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                    onClick={() => onRestore(e.state)}
+                  >
+                    この版に戻す
+                  </button>
+                </div>
+                {expanded === e.seq && <DiffTable changes={e.changes} />}
+              </li>
+            ))}
+          </ul>
+          {entries.length > 1 && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <SelectField
+                  label="比較元の版"
+                  value={from ? label(from) : ""}
+                  onChange={(v) => setCompare((c) => ({ ...c, from: seqOf(v) }))}
+                  options={["", ...entries.map(label)]}
+                />
+                <SelectField
+                  label="比較先の版"
+                  value={to ? label(to) : ""}
+                  onChange={(v) => setCompare((c) => ({ ...c, to: seqOf(v) }))}
+                  options={["", ...entries.map(label)]}
+                />
+              </div>
+              {from && to && <DiffTable changes={diffStates(from.state, to.state)} />}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ---- 保存状態（最終保存時刻・エラー・使用量）----
+type SaveStatus = { savedAt?: string; error?: string };
+
+function StorageStatus({ status }: { status: SaveStatus }) {
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  useEffect(() => {
+    estimateStorage().then(setUsage, () => setUsage(null));
+  }, [status.savedAt]);
+  return (
+    <div
+      className={`border rounded-2xl p-3 flex flex-wrap gap-2 items-center text-sm ${
+        status.error ? "bg-red-50 border-red-300 text-red-800" : "bg-white/80 text-gray-600"
+      }`}
+    >
+      <span>{status.error ? `⚠ ${status.error}` : status.savedAt ? `保存済み ${status.savedAt}` : "未保存"}</span>
+      {usage && (
+        <span className="ml-auto text-xs text-gray-500">
+          使用量 {formatBytes(usage.usage)}
+          {usage.quota > 0 && ` / ${formatBytes(usage.quota)}（${((usage.usage / usage.quota) * 100).toFixed(1)}%）`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ---- 本体 ----
+// IndexedDB の読み込み（初回は localStorage から移行）が済んでから本体を描画する
+function ChecklistLoader({
+  facility,
+  facilities,
+  onRestored,
+}: {
+  facility: Facility;
+  facilities: Facility[];
+  onRestored: (list: FacilityList) => void;
+}) {
+  const [boot, setBoot] = useState<StorageBoot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  useEffect(() => {
+    openStorage(facility.id).then(setBoot, (e) => setError(describeStorageError(e)));
+  }, [facility.id]);
+  if (error) return <div className="border border-red-300 bg-red-50 text-red-800 rounded-2xl p-4">{error}</div>;
+  if (!boot) return <div className="text-sm text-gray-500">読み込み中…</div>;
+  return (
+    <ChecklistApp
+      facility={facility}
+      facilities={facilities}
+      initial={boot.working}
+      loadIssues={boot.issues}
+      onRestored={onRestored}
+    />
+  );
+}
+
+function LoadIssues({ issues }: { issues: string[] }) {
+  const [open, setOpen] = useState(true);
+  if (!open || issues.length === 0) return null;
+  return (
+    <div className="border border-amber-300 bg-amber-50 rounded-2xl p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">保存データを読み込み時に修復しました（{issues.length}件）</span>
+        <button className="ml-auto px-2 py-1 rounded-lg border hover:bg-white" onClick={() => setOpen(false)}>
+          閉じる
+        </button>
+      </div>
+      <ul className="list-disc pl-5 mt-1">
+        {issues.map((m, i) => (
+          <li key={i}>{m}</li>
+        ))}
+      </ul>
     </div>
   );
 }
 
-// ---- 本体 ----
-function ChecklistApp() {
-  // 初期状態ファクトリ（テスト/リセット/初期化で共通利用）
-  function makeInitialState(): FormState {
-    return {
-      header: { ...EMPTY_HEADER },
-      sections: {
-        influent: { ...EMPTY_SECTION },
-        aerobic_upper: { ...EMPTY_SECTION },
-        aerobic_lower: { ...EMPTY_SECTION },
-        effluent: { ...EMPTY_SECTION },
-      },
-      points: [...DEFAULT_POINTS],
-      pointData: { aerobic_upper: {}, aerobic_lower: {} },
-      visibility: patchedVisibility(DEFAULT_VISIBILITY),
-      extraNote: "",
-    } as FormState;
-  }
+function ChecklistApp({
+  facility,
+  facilities,
+  initial,
+  loadIssues = [],
+  onRestored,
+}: {
+  facility: Facility;
+  facilities: Facility[];
+  initial: FormState | null;
+  loadIssues?: string[];
+  onRestored: (list: FacilityList) => void; // バックアップから復元した（読み直しが要る）
+}) {
+  const [settings, setSettings] = useState<AppSettings>(() => readSettings(facility.id));
+  useEffect(() => writeSettings(facility.id, settings), [settings]);
+  const rules = settings.rangeRules;
+  const template = settings.template;
 
-  const [form, setForm] = useState<FormState>(() => {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw) as FormState;
-        return {
-          ...parsed,
-          visibility: patchedVisibility(parsed.visibility),
-          points: parsed.points?.length ? parsed.points : [...DEFAULT_POINTS],
-          pointData: parsed.pointData ?? { aerobic_upper: {}, aerobic_lower: {} },
-          extraNote: (parsed as any).extraNote ?? "",
-        };
-      } catch {}
-    }
-    return makeInitialState();
-  });
+  const [form, setForm] = useState<FormState>(() => initial ?? makeInitialState(template, settings.points));
+  // 開いた時の版（読み込んだだけでは未保存の入力として扱わず、自動保存もしない）
+  const opened = useRef(form);
+  // アーカイブを直接書き換えたときに履歴表示を更新するためのカウンタ
+  const [, setArchiveTick] = useState(0);
+
+  const locked = isLocked(form);
+  // 入力欄の横に出す比較値（編集中の点検より前の記録から）
+  const compare = makeComparer(readArchive(), form, settings.compareBasis);
+
+  // 引き継いだ値の印。値を変えたら確認済みとして外す
+  useEffect(() => {
+    const pruned = pruneCarried(form);
+    if (pruned !== form) setForm(pruned);
+  }, [form]);
+  const confirmCarried = (paths: string[]) =>
+    setForm((p) => ({ ...p, carried: Object.fromEntries(Object.entries(p.carried).filter(([k]) => !paths.includes(k))) }));
+  const carriedCount = Object.keys(form.carried).length;
+  const carryMark = (path: string): CarryMark | null =>
+    !locked && path in form.carried ? { from: "前回", onConfirm: () => confirmCarried([path]) } : null;
+
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>({});
+  // 保存の成否を画面に出す（失敗時は false）
+  const persist = (p: Promise<unknown>) =>
+    p.then(
+      () => {
+        setSaveStatus({ savedAt: new Date().toLocaleTimeString() });
+        return true;
+      },
+      (e) => {
+        setSaveStatus({ error: describeStorageError(e) });
+        return false;
+      }
+    );
 
-  // 永続化（編集中スナップショット + 日別アーカイブ）
+  // 永続化（編集中スナップショット + 日別アーカイブ）: 入力が止まってからまとめて保存
+  const latest = useRef({ form, dirty: false });
+  // 入力中の自動保存（作業中データと記録）。未入力の確認は「保存」ボタンと出力の時だけ
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(form));
-    const a = readArchive();
-    a[form.header.date] = form;
-    writeArchive(a);
+    if (form === opened.current) return;
+    latest.current = { form, dirty: true };
+    const t = setTimeout(() => {
+      latest.current.dirty = false;
+      persist(saveWorkingState(facility.id, form));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(t);
   }, [form]);
+  // タブを閉じる/切り替える時は待たずに書き出す
+  const flush = () => {
+    if (!latest.current.dirty) return;
+    latest.current.dirty = false;
+    persist(saveWorkingState(facility.id, latest.current.form));
+  };
+  // 別の巡回/日に切り替える前に、保存待ちの入力を書き出す
+  const openForm = (next: FormState) => {
+    flush();
+    setForm(next);
+  };
+  useEffect(() => {
+    const onVisibility = () => document.visibilityState === "hidden" && flush();
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibility);
+    // 施設の切り替えで外れる時も書き出す
+    return () => {
+      flush();
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, []);
 
-  // 可視判定（未設定→表示=true）
-  const isFieldVisible = (
-    vis: Partial<Record<FieldKey, boolean>> | undefined,
-    key: FieldKey
-  ) => (vis?.[key] === false ? false : true);
+  // 同期でサーバーの版が届いたら履歴を更新し、編集中の点検なら差し替える
+  // 未保存の入力があれば入力を残し、サーバーの版は競合として解決を待つ
+  useEffect(() => {
+    const onApplied = (e: Event) => {
+      const { facilityId, keys } = (e as CustomEvent<{ facilityId: string; keys: string[] }>).detail;
+      if (facilityId !== facility.id) return;
+      setArchiveTick((t) => t + 1);
+      const key = inspectionKey(latest.current.form);
+      const remote = readArchive()[key];
+      if (!keys.includes(key)) return;
+      if (latest.current.dirty) persist(holdAsConflict(facility.id, key, remote ?? null));
+      else if (remote) setForm(remote);
+    };
+    window.addEventListener(SYNC_APPLIED_EVENT, onApplied);
+    return () => window.removeEventListener(SYNC_APPLIED_EVENT, onApplied);
+  }, []);
 
   // ---- Excel用 行データ生成（純粋関数） ----
-  const toSheetRows = (f: FormState): string[][] => {
+  // alarms を渡すと管理範囲を逸脱したセルの [行, 列] を追記する
+  const toSheetRows = (
+    f: FormState,
+    rules: RangeRule[] = [],
+    alarms?: [number, number][]
+  ): string[][] => {
     const rows: string[][] = [];
+    const mark = (col: number, msg: string | null) => {
+      if (msg && alarms) alarms.push([rows.length - 1, col]);
+    };
 
-    // 共通情報
-    rows.push(["日付", f.header.date]);
-    rows.push(["曜日", f.header.weekday]);
-    rows.push(["天候", f.header.weather]);
-    rows.push(["外気温(℃)", f.header.airTemp]);
-    rows.push(["初沈界面 NO.1(m)", f.header.primarySettlingNo1]);
-    rows.push(["初沈界面 NO.2(m)", f.header.primarySettlingNo2]);
-    rows.push(["PAC残量(㎥)", f.header.pacRemaining]);
-    rows.push(["脱離液 pH", f.header.elutionPH]);
-    rows.push(["脱離液 水温(℃)", f.header.elutionTemp]);
-    rows.push(["含水率(%)", f.header.waterContent]);
+    // 共通情報（先頭に施設名）
+    rows.push(["施設", facility.name]);
+    for (const h of HEADER_FIELDS) {
+      rows.push([h.label, headerValue(f, h.key)]);
+      mark(1, checkRange(rules, "header", h.key, f.header[h.key]));
+    }
+    for (const x of SIGNOFF_FIELDS) rows.push([x.label, f.signoff[x.key]]);
+    rows.push([""]);
+
+    // 計算値（履歴の PAC 残量から）
+    const pac = formatPac(pacStats({ ...readArchive(), [inspectionKey(f)]: f }, f.header.date, settings.pacReorderLevel));
+    rows.push([`【${DERIVED_BLOCK}】`]);
+    rows.push(["PAC使用量(㎥/日)", pac.usage]);
+    rows.push([`PAC使用量 ${PAC_AVERAGE_DAYS}日平均(㎥/日)`, pac.average]);
+    rows.push(["PAC発注レベル到達見込み", pac.forecast]);
     rows.push([""]);
 
-    // 各セクション
-    for (const def of SECTION_DEFS) {
+    // 各セクション（テンプレート順）
+    for (const def of template.sections) {
       rows.push([`【${def.label}】`]);
-      const s = f.sections[def.key];
-      const vis = f.visibility?.[def.key] ?? {};
-
-      const isAerobic = def.key === "aerobic_upper" || def.key === "aerobic_lower";
-      // 好気性ろ床（上部/下部）はセクション側の行を出さず、ポイント表のみ
-      if (!isAerobic) {
-        for (const k of FIELD_ORDER) {
-          if (!isFieldVisible(vis, k)) continue;
-          const label = FIELD_LABEL[k];
-          const val = (s[k] as string) || "";
-          rows.push([label, val]);
-        }
-      }
+      const s = f.sections[def.key] ?? {};
+      const cols = sectionFields(template, def, f.visibility?.[def.key]);
 
-      if (POINT_SECTIONS.includes(def.key)) {
-        const visCols = POINT_FIELD_ORDER.filter((k) => isFieldVisible(vis, k));
-        if (visCols.length) {
-          rows.push(["ポイント", ...visCols.map((k) => FIELD_LABEL[k])]);
-          const pd = f.pointData?.[def.key] || {};
-          for (const label of f.points) {
-            const rec = pd[label] || {};
-            rows.push([
-              displayPointLabel(label),
-              ...visCols.map((k) => String((rec as any)[k] ?? "")),
-            ]);
-          }
+      // ポイント記録のセクション（好気性ろ床 上部/下部など）はセクション側の行を出さず、ポイント表のみ
+      if (!def.perPoint) {
+        for (const d of cols) {
+          const val = s[d.key] || "";
+          rows.push([fieldLabel(d), val]);
+          mark(1, checkRange(rules, def.key, d.key, val));
+        }
+      } else if (cols.length) {
+        rows.push(["ポイント", ...cols.map(fieldLabel)]);
+        const pd = f.pointData?.[def.key] || {};
+        for (const p of f.points) {
+          const rec = pd[p.id] || {};
+          rows.push([displayPointLabel(p.label), ...cols.map((d) => String(rec[d.key] ?? ""))]);
+          cols.forEach((d, i) => mark(i + 1, checkRange(rules, def.key, d.key, rec[d.key], p.id)));
         }
       }
 
@@ -414,10 +4375,47 @@ function ChecklistApp() {
     return rows;
   };
 
-  const exportExcel = () => {
-    const rows = toSheetRows(form);
+  // 未入力のまま保存/出力した旨を記録に追記する
+  // 編集中の点検はフォームにだけ付けて自動保存に任せる（保存済みの版は入力より遅れていることがある）
+  const recordIncomplete = (notes: Map<string, IncompleteNote>) => {
+    if (notes.size === 0) return;
+    const archive = readArchive();
+    for (const [key, note] of notes) {
+      if (key === inspectionKey(latest.current.form)) {
+        setForm((p) => (isLocked(p) ? p : withIncompleteNote(p, note)));
+        continue;
+      }
+      const saved = archive[key];
+      if (saved && !isLocked(saved)) persist(putArchiveEntry(facility.id, withIncompleteNote(saved, note)));
+    }
+  };
+
+  const openArchived = (key: string) => {
+    const snap = readArchive()[key];
+    if (!snap) return;
+    const v = validateFormState(snap, template);
+    if (v.ok) openForm(v.state);
+    else alert(`${key} を読み込めません: ${v.error}`);
+  };
+
+  const excelFileName = (f: FormState) => {
+    const round = f.header.round ? `_${fileSafe(f.header.round)}` : "";
+    return `inspection_${fileSafe(facility.name)}_${f.header.date || "date"}${round}.xlsx`;
+  };
+
+  const exportExcel = (f: FormState) => {
+    if (!confirmInvalidBeforeExport([f], template)) return;
+    const notes = confirmIncomplete([f], template, "Excel出力");
+    if (!notes) return;
+    recordIncomplete(notes);
+    const alarms: [number, number][] = [];
+    const rows = toSheetRows(f, rules, alarms);
     const wb = XLSX.utils.book_new();
     const ws = XLSX.utils.aoa_to_sheet(rows);
+    for (const [r, c] of alarms) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      if (cell) cell.s = ALARM_CELL_STYLE;
+    }
 
     const col0 = rows.reduce((acc, r) => Math.max(acc, (r[0] || "").length), 8);
     (ws as any)["!cols"] = [
@@ -430,17 +4428,169 @@ function ChecklistApp() {
     ];
 
     XLSX.utils.book_append_sheet(wb, ws, "点検表");
-    const fname = `inspection_${form.header.date || "date"}.xlsx`;
-    XLSX.writeFile(wb, fname);
+    const fname = excelFileName(f);
+    const photos = f.photos.map((ref) => ({ ref, where: photoWhere(template, f, ref) }));
+    downloadWorkbook(wb, fname, photos).catch((e) => alert(`エクスポートに失敗しました: ${String(e)}`));
+  };
+
+  // 写真の添付/取り外し（承認済みは不可）。本体の保存に失敗したら保存状態に出す
+  // 縮小の間に別の日/巡回へ切り替えたら、添付を始めた点検の保存済みの記録に付ける
+  const addPhotos = (section: SectionKey, point: string | undefined, files: File[]) => {
+    if (locked) return;
+    const key = inspectionKey(form);
+    persist(
+      Promise.all(files.map((file) => storePhoto(file, section, point))).then(async (refs) => {
+        if (inspectionKey(latest.current.form) === key) {
+          setForm((p) => (isLocked(p) || inspectionKey(p) !== key ? p : { ...p, photos: [...p.photos, ...refs] }));
+          return;
+        }
+        const saved = readArchive()[key];
+        if (!saved) throw new Error(`写真を付ける ${key} の記録が見つかりません`);
+        if (!(await putArchiveEntry(facility.id, { ...saved, photos: [...saved.photos, ...refs] }))) return;
+        setArchiveTick((t) => t + 1);
+      })
+    );
+  };
+  const removePhoto = (id: string) => {
+    if (locked) return;
+    setForm((p) => ({ ...p, photos: p.photos.filter((x) => x.id !== id) }));
   };
 
   const [previewOpen, setPreviewOpen] = useState(false);
+  const previewAlarms: [number, number][] = [];
+  const previewRows = previewOpen ? toSheetRows(form, rules, previewAlarms) : [];
+  // 必須項目（表示している項目）の入力状況
+  const required = requiredEntries(form, template);
+  // 帳票PDF: 様式どおりのページを印刷用に描画し、ブラウザの印刷（PDFに保存）を開く
+  const [printJob, setPrintJob] = useState<{ title: string; forms: FormState[] } | null>(null);
+  const printForms = (title: string, forms: FormState[]) => {
+    if (forms.length === 0) return alert("印刷する点検記録がありません");
+    if (!confirmInvalidBeforeExport(forms, template)) return;
+    const notes = confirmIncomplete(forms, template, "帳票PDF出力");
+    if (!notes) return;
+    recordIncomplete(notes);
+    flush();
+    setPrintJob({ title, forms });
+  };
+  useEffect(() => {
+    if (!printJob) return;
+    const title = document.title;
+    document.title = printJob.title; // 「PDFに保存」の既定ファイル名になる
+    document.body.classList.add("printing");
+    const done = () => setPrintJob(null);
+    window.addEventListener("afterprint", done);
+    window.print();
+    return () => {
+      window.removeEventListener("afterprint", done);
+      document.body.classList.remove("printing");
+      document.title = title;
+    };
+  }, [printJob]);
+
   const openPreview = () => setPreviewOpen(true);
   const closePreview = () => setPreviewOpen(false);
 
+  // 開こうとしている点検（日付・巡回）が承認済みの記録と同じなら、その記録（上書きさせない）
+  const approvedRecord = (next: FormState) => {
+    const saved = readArchive()[inspectionKey(next)];
+    return saved && !canOverwrite(saved, next) ? saved : undefined;
+  };
+  const alertApproved = (saved: FormState) =>
+    alert(
+      `${saved.header.date} ${saved.header.round} は承認済みです（${saved.signoff.approver} ${saved.signoff.approvedAt}）。履歴から開いてください`
+    );
+
   // resetAll を定義
   const resetAll = () => {
-    setForm(makeInitialState());
+    const next = makeInitialState(template, settings.points);
+    const saved = approvedRecord(next);
+    if (saved) return alertApproved(saved);
+    openForm(next);
+  };
+
+  // 新しい点検（日付を選び、選んだ項目を直近の記録から引き継ぐ）。既存の点検と同じキーにはしない
+  const [newOpen, setNewOpen] = useState(false);
+  const createInspection = (date: string, round: string, source: FormState | undefined, keys: string[]) => {
+    const archive = readArchive();
+    let next = makeInitialState(template, settings.points);
+    next.header = { ...next.header, date, weekday: weekdayOf(date), round, time: "" };
+    if (roundsOn(archive, date).length) next.roundId = `r_${Date.now().toString(36)}`;
+    if (archive[inspectionKey(next)]) return alert(`${date} の記録は既にあります`);
+    if (source) next = carryForward(next, source, keys, template);
+    setNewOpen(false);
+    openForm(next);
+  };
+
+  // 同じ日に巡回を追加（日付・曜日・天候は引き継ぐ）
+  const addRound = () => {
+    const round = prompt("巡回名（例: 午後、降雨後）", "");
+    if (round === null) return;
+    const next = makeInitialState(template, settings.points);
+    next.roundId = `r_${Date.now().toString(36)}`;
+    next.header = {
+      ...next.header,
+      date: form.header.date,
+      weekday: form.header.weekday,
+      weather: form.header.weather,
+      round: round.trim(),
+      time: new Date().toTimeString().slice(0, 5),
+    };
+    openForm(next);
+  };
+
+  // テンプレート適用: 作業中の日は新しい様式で表示（値はキーが同じものを引き継ぐ）
+  const applyTemplate = (t: PlantTemplate) => {
+    setSettings((p) => ({ ...p, template: t }));
+    // 承認済みの記録は当時の様式のまま
+    setForm((p) => {
+      if (isLocked(p)) return p;
+      return {
+        ...p,
+        sections: {
+          ...p.sections,
+          ...Object.fromEntries(t.sections.map((sec) => [sec.key, { ...emptySection(t, sec), ...p.sections[sec.key] }])),
+        },
+        pointData: {
+          ...Object.fromEntries(t.sections.filter((sec) => sec.perPoint).map((sec) => [sec.key, {}])),
+          ...p.pointData,
+        },
+        visibility: visibilityFromTemplate(t),
+      };
+    });
+  };
+
+  // ポイント設定の変更は作業中の日にだけ反映（保存済みの日は当日の名前・構成のまま）
+  const applyPoints = (points: PointDef[]) => {
+    setSettings((p) => ({ ...p, points }));
+    setForm((p) => (isLocked(p) ? p : { ...p, points: activePoints(points) }));
+  };
+
+  // 日単位（その日の全巡回）で他施設へコピー/移動（編集中の日は自動保存で元の施設に戻ってしまうため移動不可）
+  const transferDay = async (date: string, target: Facility, move: boolean) => {
+    const snaps = roundsOn(readArchive(), date);
+    if (snaps.length === 0) return;
+    if (move && date === form.header.date) {
+      alert("編集中の日付は移動できません。別の日を開いてから移動してください（コピーはできます）");
+      return;
+    }
+    const exists = await Promise.all(snaps.map((s) => hasArchiveEntry(target.id, inspectionKey(s)))).catch(() => []);
+    if (exists.some(Boolean) && !confirm(`${target.name} には ${date} の記録があります。上書きしますか？`)) return;
+    // 移動先の承認済みの記録は上書きされない。その巡回は移動元から消さない
+    const skipped: FormState[] = [];
+    const ok = await persist(
+      (async () => {
+        for (const s of snaps) {
+          if (!(await putArchiveEntry(target.id, s))) skipped.push(s);
+          else if (move) await deleteArchiveEntry(facility.id, inspectionKey(s));
+        }
+      })()
+    );
+    if (!ok) return;
+    setArchiveTick((t) => t + 1);
+    const note = skipped.length
+      ? `（${skipped.map((s) => s.header.round || "巡回").join("、")} は ${target.name} 側が承認済みのため除外）`
+      : "";
+    alert(`${date} を ${target.name} へ${move ? "移動" : "コピー"}しました${note}`);
   };
 
   // ---- 簡易テスト（起動時に console 出力）----
@@ -455,6 +4605,13 @@ function ChecklistApp() {
       }
     };
 
+    // DB を使うテスト（結果は揃った時に出す）
+    const testAsync = (name: string, fn: () => Promise<boolean>) =>
+      fn().then(
+        (pass) => console[pass ? "log" : "error"](`${pass ? "PASS" : "FAIL"}: ${name}`),
+        (e) => console.error(`FAIL: ${name}`, e)
+      );
+
     test("SelectField is defined", () => typeof SelectField === "function");
     test("HistoryPanel defined", () => typeof HistoryPanel === "function");
 
@@ -491,7 +4648,7 @@ function ChecklistApp() {
     test(
       "DEFAULT_POINTS fixed",
       () =>
-        DEFAULT_POINTS.join("|") ===
+        DEFAULT_POINTS.map((p) => p.label).join("|") ===
         ["NO.1-1", "NO.1-2", "NO.2-1", "NO.2-2"].join("|")
     );
 
@@ -539,6 +4696,509 @@ function ChecklistApp() {
       return typeof html === "string" && html.includes("<table");
     });
 
+    // 追加テスト: 月報は日数分の列を持ち、記録なしの日は欠測扱い
+    test("Monthly rows have one column per day", () => {
+      const rows = toMonthlySheetRows({}, "2024-02", DEFAULT_TEMPLATE);
+      return rows[1].length === 1 + 29 && rows[2][1] === MISSING_MARK;
+    });
+
+    // 追加テスト: トレンドはポイント毎に系列を作る
+    test("Trend groups split points into series", () => {
+      const snap = makeInitialState();
+      snap.pointData.aerobic_upper = { "NO.1-1": { DO: "2.5" }, "NO.1-2": { DO: "3" } };
+      const groups = buildTrendGroups({ "2024-01-01": snap }, "DO", "", "", DEFAULT_TEMPLATE);
+      return groups.length === 1 && groups[0].series.length === 2;
+    });
+
+    // 追加テスト: 管理範囲の逸脱はシート上のセル位置として返る
+    test("Range alarms point at sheet cells", () => {
+      const f = makeInitialState();
+      f.sections.effluent = { ...f.sections.effluent, pH: "9.1" };
+      const alarms: [number, number][] = [];
+      const rows = toSheetRows(f, DEFAULT_SETTINGS.rangeRules, alarms);
+      return (
+        alarms.length === 1 &&
+        rows[alarms[0][0]][0] === "pH" &&
+        findExceedances(f, DEFAULT_SETTINGS.rangeRules, DEFAULT_TEMPLATE).length === 1
+      );
+    });
+
+    // 追加テスト: シート行 → FormState の往復で値が戻る
+    test("Sheet rows round-trip through import", () => {
+      const f = makeInitialState();
+      f.header.weather = "雨";
+      f.sections.effluent = { ...f.sections.effluent, pH: "7.2" };
+      f.pointData.aerobic_lower = { "NO.2-1": { DO: "1.8" } };
+      f.extraNote = "スカム少量";
+      const r = fromSheetRows(toSheetRows(f));
+      // 利用者が "No." で始まる名前を付けたポイントも登録の名前のまま対応付く
+      const registry: PointDef[] = [...DEFAULT_POINTS, { id: "p5", label: "No.5" }];
+      const g = makeInitialState(DEFAULT_TEMPLATE, registry);
+      g.pointData.aerobic_lower = { p5: { DO: "2.4" } };
+      const custom = fromSheetRows(toSheetRows(g), DEFAULT_TEMPLATE, registry);
+      return (
+        !r.error &&
+        custom.state.pointData.aerobic_lower?.p5?.DO === "2.4" &&
+        custom.state.points.some((p) => p.id === "p5" && p.label === "No.5") &&
+        r.unknown.length === 0 &&
+        r.state.header.weather === "雨" &&
+        r.state.sections.effluent.pH === "7.2" &&
+        r.state.pointData.aerobic_lower?.["NO.2-1"]?.DO === "1.8" &&
+        r.state.extraNote === "スカム少量" &&
+        r.facility === facility.name
+      );
+    });
+
+    // 追加テスト: 容量超過は専用メッセージで表示される
+    test("Quota errors are reported", () =>
+      describeStorageError({ name: "QuotaExceededError" }).includes("容量")
+    );
+
+    // 追加テスト: 版番号のない旧データは移行され、日付のないものは拒否される
+    test("Legacy snapshots migrate and malformed ones are rejected", () => {
+      const legacy = validateFormState({ header: { date: "2023-04-01", airTemp: 12 }, sections: {} });
+      const broken = validateFormState({ header: {} });
+      return (
+        legacy.ok &&
+        legacy.state.schemaVersion === SCHEMA_VERSION &&
+        legacy.state.header.airTemp === "12" &&
+        legacy.state.extraNote === "" &&
+        legacy.state.sections.effluent.pH === "" &&
+        !broken.ok
+      );
+    });
+
+    // 追加テスト: 旧形式のポイント（ラベル配列）は id 付きに移行され、改称しても値は id で引ける
+    test("Points migrate to stable ids and survive renames", () => {
+      const v = validateFormState({
+        schemaVersion: 2,
+        header: { date: "2023-04-01" },
+        points: ["NO.1-1"],
+        pointData: { aerobic_upper: { "NO.1-1": { DO: "2.0" } } },
+      });
+      if (!v.ok) return false;
+      const renamed = {
+        ...v.state,
+        header: { ...v.state.header, date: "2023-04-02" },
+        points: [{ id: "NO.1-1", label: "NO.3-1" }],
+      };
+      const monthly = toMonthlySheetRows({ "2023-04-01": v.state, "2023-04-02": renamed }, "2023-04", DEFAULT_TEMPLATE);
+      return (
+        v.state.points[0].id === "NO.1-1" &&
+        toSheetRows(renamed).some((r) => r[0] === "No.3-1" && r.includes("2.0")) &&
+        monthly.some((r) => r[0].startsWith("No.1-1／No.3-1"))
+      );
+    });
+
+    // 追加テスト: 承認情報は Excel の共通情報に出て、取り込みで戻る
+    test("Sign-off prints in sheet header and round-trips", () => {
+      const f = makeInitialState();
+      f.signoff = {
+        ...f.signoff,
+        inspector: "山田",
+        submittedAt: "2024-05-01 09:10",
+        approver: "佐藤",
+        approvedAt: "2024-05-01 17:00",
+      };
+      const rows = toSheetRows(f);
+      const r = fromSheetRows(rows);
+      return (
+        rows.some((x) => x[0] === "承認者" && x[1] === "佐藤") &&
+        isLocked(r.state) &&
+        r.state.signoff.inspector === "山田" &&
+        !isLocked(makeInitialState())
+      );
+    });
+
+    // 追加テスト: 変更履歴の差分はフィールドのパスで表される
+    test("Change diffs use field paths", () => {
+      const a = makeInitialState();
+      const b = { ...a, pointData: { ...a.pointData, aerobic_upper: { "NO.1-2": { DO: "3.1" } } } };
+      const changes = diffStates(a, b);
+      return (
+        changes.length === 1 &&
+        changes[0].path === 'pointData.aerobic_upper["NO.1-2"].DO' &&
+        changes[0].old === "" &&
+        changes[0].new === "3.1" &&
+        diffStates(b, b).length === 0
+      );
+    });
+
+    // 追加テスト: 同じ日の巡回は別キーで残り、1日分まとめ出力は巡回=列になる
+    test("Rounds on the same date are kept apart", () => {
+      const am = makeInitialState();
+      am.header = { ...am.header, date: "2024-05-01", round: "午前", time: "09:00" };
+      am.sections.effluent = { ...am.sections.effluent, pH: "7.0" };
+      const pm = { ...am, roundId: "r_pm", header: { ...am.header, round: "午後", time: "14:00" } };
+      pm.sections = { ...am.sections, effluent: { ...am.sections.effluent, pH: "7.4" } };
+      const archive = { [inspectionKey(pm)]: pm, [inspectionKey(am)]: am };
+      const rows = toDaySheetRows(archive, "2024-05-01", DEFAULT_TEMPLATE);
+      return (
+        Object.keys(archive).length === 2 &&
+        rows[1].join("|") === "項目|午前 09:00|午後 14:00" &&
+        rows.some((r) => r[0] === "pH" && r[1] === "7.0" && r[2] === "7.4") &&
+        toMonthlySheetRows(archive, "2024-05", DEFAULT_TEMPLATE)[2][1] === "○×2"
+      );
+    });
+
+    // 追加テスト: 写真の参照は検証され、ZIP は CRC 付きで書き出される
+    test("Photo refs validate and zip entries are well-formed", () => {
+      const s = { ...makeInitialState(), photos: [{ id: "ph_1", section: "effluent", point: "", name: "a.jpg", at: "" }, { x: 1 }] };
+      const v = validateFormState(JSON.parse(JSON.stringify(s)));
+      const noPhotos = validateFormState({ ...makeInitialState(), photos: undefined });
+      const crcOk = crc32(new TextEncoder().encode("123456789")) === 0xcbf43926;
+      const zip = makeZip([{ name: "写真/01.jpg", data: new Uint8Array([1, 2, 3]) }]);
+      return (
+        v.ok && v.state.photos.length === 1 && !("point" in v.state.photos[0]) &&
+        noPhotos.ok && noPhotos.state.photos.length === 0 &&
+        crcOk && zip.size === 30 + 13 + 3 + 46 + 13 + 22
+      );
+    });
+
+    // 追加テスト: 帳票PDFの月まとめは月内の点検だけを日付・時刻順に並べる
+    test("Monthly print pages are the month's inspections in order", () => {
+      const at = (date: string, time = "") => {
+        const s = makeInitialState();
+        s.header = { ...s.header, date, time };
+        s.roundId = time ? `r_${time}` : "";
+        return s;
+      };
+      const list = [at("2024-06-02", "14:00"), at("2024-05-31"), at("2024-06-02", "09:00"), at("2024-06-01")];
+      const archive = Object.fromEntries(list.map((s) => [inspectionKey(s), s]));
+      const pages = inspectionsInMonth(archive, "2024-06").map((s) => `${s.header.date} ${s.header.time}`.trim());
+      return pages.join("|") === "2024-06-01|2024-06-02 09:00|2024-06-02 14:00";
+    });
+
+    // 追加テスト: バックアップは版を検証し、復元時は日ごとに手元/バックアップ/新しい方を選べる
+    test("Backup restore plans per-date conflicts", () => {
+      const s = makeInitialState();
+      s.header = { ...s.header, date: "2024-07-01" };
+      const theirs = { ...s, sections: { ...s.sections, effluent: { ...s.sections.effluent, pH: "7.2" } } };
+      const fresh = { ...s, header: { ...s.header, date: "2024-07-02" } };
+      const parsed = parseBackup(
+        JSON.parse(
+          JSON.stringify({
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            current: "default",
+            facilities: [
+              {
+                facility: DEFAULT_FACILITY,
+                settings: DEFAULT_SETTINGS,
+                working: null,
+                records: [
+                  { state: theirs, updatedAt: "2024-07-01T10:00:00Z" },
+                  { state: fresh, updatedAt: "2024-07-02T10:00:00Z" },
+                ],
+              },
+            ],
+            photos: [],
+          })
+        )
+      );
+      if (!parsed.ok) return false;
+      const mine = { ...toRecord("default", s), updatedAt: "2024-07-01T12:00:00Z" };
+      const [conflict, added] = planRestore([mine], parsed.backup);
+      const locked = { ...conflict, mine: { ...mine, state: { ...s, signoff: { ...s.signoff, approvedAt: "2024-07-01 12:00" } } } };
+      return (
+        !parseBackup({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1 }).ok &&
+        !conflict.same && !!conflict.mine && !added.mine &&
+        !takeTheirs(conflict, "newer") && !takeTheirs(conflict, "mine") && takeTheirs(conflict, "theirs") &&
+        takeTheirs(added, "mine") &&
+        !takeTheirs(locked, "theirs") && takeTheirs(locked, "newer", "theirs")
+      );
+    });
+
+    // 追加テスト: 同期の競合判定は内容で比べる（削除どうしは一致、削除と記録は不一致）
+    test("Sync compares record content for conflicts", () => {
+      const a = makeInitialState();
+      const b = { ...a, extraNote: "changed" };
+      return sameContent(a, JSON.parse(JSON.stringify(a))) && !sameContent(a, b) && sameContent(null, null) && !sameContent(a, null);
+    });
+
+    // 追加テスト: 曜日は日付から、PAC使用量は前回記録日との差（間が空いたら日割り、増えたら補充）
+    test("Weekday and PAC usage are derived from the archive", () => {
+      const day = (date: string, pacRemaining: string) => {
+        const s = makeInitialState();
+        s.header = { ...s.header, date, pacRemaining };
+        return s;
+      };
+      const archive = Object.fromEntries(
+        [day("2024-10-01", "10"), day("2024-10-02", "9"), day("2024-10-04", "8"), day("2024-10-05", "12")].map((s) => [
+          inspectionKey(s),
+          s,
+        ])
+      );
+      const d4 = pacStats(archive, "2024-10-04", "5");
+      const d5 = pacStats(archive, "2024-10-05", "5");
+      return (
+        weekdayOf("2024-10-01") === "火" &&
+        weekdayOf("") === "" &&
+        d4.usage === 0.5 &&
+        d4.average === 0.75 &&
+        d4.forecast === "2024-10-08" &&
+        d5.refilled &&
+        formatPac(d5).usage === "補充" &&
+        pacStats(archive, "2024-10-02", "9").belowLevel
+      );
+    });
+
+    // 追加テスト: 比較値は基準ごとに過去の記録から取り、大きな変化は強調される
+    test("Comparisons use the chosen basis and flag jumps", () => {
+      const at = (date: string, pH: string, odor = "") => {
+        const s = makeInitialState();
+        s.header = { ...s.header, date };
+        s.sections = { ...s.sections, effluent: { ...s.sections.effluent, pH, odor } };
+        return s;
+      };
+      const list = [at("2024-10-01", "7.0", "無 臭"), at("2024-10-07", "6.0"), at("2024-10-08", "8.0"), at("2024-10-10", "")];
+      const archive = Object.fromEntries(list.map((s) => [inspectionKey(s), s]));
+      const form = at("2024-10-08", "9.0", "微 臭");
+      const pH = (basis: CompareBasis) => makeComparer(archive, form, basis)((s) => s.sections.effluent?.pH, "9.0");
+      const odor = makeComparer(archive, form, "previous")((s) => s.sections.effluent?.odor, "微 臭");
+      const prev = pH("previous");
+      const week = pH("lastWeek");
+      const avg = pH("average7");
+      return (
+        prev?.label === "前回 10/7" && prev.value === "6.0" && prev.delta === "+3.0" && prev.jump &&
+        week?.value === "7.0" && week.label.startsWith("先週 10/1") &&
+        avg?.value === "6.50" && avg.label === "7日平均(2件)" &&
+        odor?.value === "無 臭" && odor.jump
+      );
+    });
+
+    // 追加テスト: 引き継ぎは選んだ項目の値だけを写して印を付け、値を変えると印が外れる
+    test("Copy-forward carries selected fields and marks them until changed", () => {
+      const src = makeInitialState();
+      src.header = { ...src.header, date: "2024-11-01", weather: "雨", airTemp: "12" };
+      src.sections = { ...src.sections, influent: { ...src.sections.influent, odor: "無 臭", pH: "7.1" } };
+      src.pointData = { ...src.pointData, aerobic_lower: { "NO.1-1": { aeration: "30" } } };
+      const next = makeInitialState();
+      next.header = { ...next.header, date: "2024-11-02" };
+      const keys = ["header.weather", "header.date", "influent.odor", "aerobic_lower.aeration"];
+      const c = carryForward(next, src, keys, DEFAULT_TEMPLATE);
+      const edited = pruneCarried({ ...c, sections: { ...c.sections, influent: { ...c.sections.influent, odor: "微 臭" } } });
+      return (
+        c.header.weather === "雨" && c.header.date === "2024-11-02" && c.header.airTemp === "" &&
+        c.sections.influent.odor === "無 臭" && c.sections.influent.pH === "" &&
+        c.pointData.aerobic_lower?.["NO.1-1"]?.aeration === "30" &&
+        Object.keys(c.carried).length === 3 &&
+        pruneCarried(c) === c &&
+        !("sections.influent.odor" in edited.carried) && Object.keys(edited.carried).length === 2
+      );
+    });
+
+    // 追加テスト: 統計は期間内の数値を項目/ポイント毎に集計し、選択項目は頻度を数える
+    test("Statistics summarize numerics per point and count selections", () => {
+      const at = (date: string, pH: string, odor: string, DO: string) => {
+        const s = makeInitialState();
+        s.header = { ...s.header, date, airTemp: "10" };
+        s.sections = { ...s.sections, effluent: { ...s.sections.effluent, pH, odor } };
+        s.pointData = { ...s.pointData, aerobic_upper: { "NO.1-1": { DO } } };
+        return s;
+      };
+      const list = [at("2024-12-01", "7.0", "無 臭", "2"), at("2024-12-02", "7.4", "無 臭", "4"), at("2025-01-01", "9.9", "微 臭", "9")];
+      const r = computeStats(Object.fromEntries(list.map((s) => [inspectionKey(s), s])), "2024-12-01", "2024-12-31", DEFAULT_TEMPLATE);
+      const pH = r.numeric.find((s) => s.group === "放流水" && s.item === "pH")!;
+      const DO = r.numeric.find((s) => s.group === "好気性ろ床 上部 No.1-1" && s.item.startsWith("DO"))!;
+      const odor = r.frequencies.find((q) => q.group === "放流水" && q.item === "臭気")!;
+      const rows = toStatsSheetRows(r);
+      return (
+        r.inspections === 2 &&
+        pH.count === 2 && pH.min === 7 && pH.max === 7.4 && formatStat(pH).mean === "7.20" && formatStat(pH).sd === "0.28" &&
+        DO.mean === 3 &&
+        odor.total === 2 && odor.counts.find(([v]) => v === "無 臭")?.[1] === 2 && odor.counts.find(([v]) => v === "微 臭")?.[1] === 0 &&
+        rows.some((row) => row[0] === "共通情報" && row[1] === "外気温(℃)" && row[2] === "2")
+      );
+    });
+
+    // 追加テスト: 全角入力は半角に直し、項目の入力条件（範囲/桁/負の値）に合わない値を拾う
+    test("Numeric input is normalized and checked against field specs", () => {
+      const pH = DEFAULT_TEMPLATE.fields.find((d) => d.key === "pH")!;
+      const s = makeInitialState();
+      s.header = { ...s.header, airTemp: "-3.5", waterContent: "180" };
+      s.sections = { ...s.sections, effluent: { ...s.sections.effluent, pH: "21" } };
+      s.pointData = { ...s.pointData, aerobic_upper: { "NO.1-1": { DO: "2.55" } } };
+      const found = invalidEntries(s, DEFAULT_TEMPLATE).map((e) => e.where);
+      const old = normalizeSettings({ template: { ...DEFAULT_TEMPLATE, fields: DEFAULT_TEMPLATE.fields.map(({ key, label, kind, options, unit }) => ({ key, label, kind, options, unit })) } });
+      return (
+        normalizeNumberInput("７．２", false) === "7.2" &&
+        normalizeNumberInput("ー３", true) === "-3" &&
+        normalizeNumberInput("-3", false) === "3" &&
+        numberProblem("7.2", pH) === null &&
+        numberProblem("21", pH) !== null &&
+        numberProblem("7.25", pH) === "小数は1桁までです" &&
+        numberProblem("-", HEADER_NUMBER_SPEC.airTemp) === "数値ではありません" &&
+        found.length === 3 &&
+        found.includes("共通情報 含水率(%)") &&
+        found.includes("放流水 pH") &&
+        found.some((w) => w.startsWith("好気性ろ床 上部") && w.endsWith("DO(mg/L)")) &&
+        old.template.fields.find((d) => d.key === "pH")?.max === "14"
+      );
+    });
+
+    // 追加テスト: 必須は表示中の項目（文章は除く）。ポイントはその日のポイント分、未入力の記録は履歴に残る
+    test("Required entries follow visibility and points", () => {
+      const s = makeInitialState();
+      s.header = { ...s.header, date: "2024-05-01", weather: "晴" };
+      s.visibility = { ...s.visibility, effluent: { ...s.visibility.effluent, residualChlorine: false } };
+      s.sections = { ...s.sections, effluent: { ...s.sections.effluent, pH: "7.0" } };
+      s.pointData = { ...s.pointData, aerobic_upper: { "NO.2-2": { DO: "3" } } };
+      const all = requiredEntries(s, DEFAULT_TEMPLATE);
+      const missing = missingEntries(s, DEFAULT_TEMPLATE);
+      const upper = progressOf(all.filter((e) => e.section === "aerobic_upper" && e.point === "NO.2-2"));
+      const noted = withIncompleteNote(s, { by: "A", at: "2024-05-01 10:00", action: "Excel出力", missing: missing.length });
+      const v = validateFormState(JSON.parse(JSON.stringify(noted)), DEFAULT_TEMPLATE);
+      return (
+        !all.some((e) => e.path === "sections.effluent.residualChlorine" || e.path.endsWith(".comment")) &&
+        !missing.some((e) => e.path.startsWith("header.")) &&
+        missing.some((e) => e.path === `pointData.aerobic_upper["NO.2-2"].pH`) &&
+        !missing.some((e) => e.path === "sections.effluent.pH") &&
+        upper.filled === 1 && upper.total === 7 &&
+        v.ok && v.state.signoff.incomplete.length === 1 &&
+        diffStates(s, noted).some((c) => c.path === "signoff.incomplete")
+      );
+    });
+
+    // 追加テスト: 表への貼り付けはタブ区切りを行=ポイント・列=項目に当てはめ、全角は直し、選択肢外は飛ばす
+    test("Grid paste maps a TSV block onto points and fields", () => {
+      const sec = DEFAULT_TEMPLATE.sections.find((d) => d.key === "aerobic_upper")!;
+      const fields = sectionFields(DEFAULT_TEMPLATE, sec);
+      const points = DEFAULT_POINTS.map(({ id, label }) => ({ id, label }));
+      const col = fields.findIndex((d) => d.key === "temp");
+      const { next, skipped } = applyGridPaste(
+        { "NO.1-1": { DO: "1" } },
+        points,
+        fields,
+        2,
+        col - 1,
+        "ほぼ透明\t２０．５\t30\r\n赤\t21\t31\r\n無\t9\t9\r\n"
+      );
+      return (
+        parseTsv("a\tb\n\n").length === 1 &&
+        next["NO.1-1"]?.DO === "1" &&
+        next["NO.2-1"]?.color === "ほぼ透明" && next["NO.2-1"]?.temp === "20.5" && next["NO.2-1"]?.turbidity === "30" &&
+        next["NO.2-2"]?.color === undefined && next["NO.2-2"]?.temp === "21" &&
+        skipped === 1 &&
+        normalizeSettings({}).pointView === "card"
+      );
+    });
+
+    // 追加テスト: 検索は文字列・条件（ポイントはいずれか）・期間の AND で、日付順に該当値を返す
+    test("Search combines text, conditions and date range", () => {
+      const at = (date: string, note: string, pH: string, headLoss: string, weather: string) => {
+        const s = makeInitialState();
+        s.header = { ...s.header, date, weather: weather as HeaderForm["weather"] };
+        s.extraNote = note;
+        s.sections = { ...s.sections, effluent: { ...s.sections.effluent, pH } };
+        s.pointData = { ...s.pointData, aerobic_upper: { "NO.1-1": { headLoss: "10" }, "NO.2-2": { headLoss } } };
+        return s;
+      };
+      const list = [
+        at("2024-07-03", "汚泥の浮上あり", "8.3", "55", "雨"),
+        at("2024-07-01", "異常なし", "8.4", "60", "雨"),
+        at("2024-07-02", "スカム・汚泥", "7.0", "70", "晴"),
+        at("2024-08-01", "汚泥", "8.5", "80", "雨"),
+      ];
+      const archive = Object.fromEntries(list.map((s) => [inspectionKey(s), s]));
+      const cond = (field: string, scope: RangeScope, op: SearchOp, value: string): SearchCondition => ({
+        id: field,
+        scope,
+        field,
+        op,
+        value,
+      });
+      const hits = searchInspections(
+        archive,
+        {
+          text: "汚泥",
+          from: "2024-07-01",
+          to: "2024-07-31",
+          conditions: [
+            cond("pH", "effluent", ">", "8.0"),
+            cond("headLoss", "aerobic_upper", "≥", "50"),
+            cond("weather", "header", "=", "雨"),
+          ],
+        },
+        DEFAULT_TEMPLATE
+      );
+      const rain = searchInspections(archive, { text: "", from: "", to: "", conditions: [cond("weather", "header", "≠", "雨")] }, DEFAULT_TEMPLATE);
+      // ポイントごとの文章項目（テンプレートでポイント表のセクションに備考を追加した場合）も文字列の対象
+      const withComment: PlantTemplate = {
+        ...DEFAULT_TEMPLATE,
+        sections: DEFAULT_TEMPLATE.sections.map((sec) =>
+          sec.key === "aerobic_upper" ? { ...sec, fields: [...sec.fields, "comment"] } : sec
+        ),
+      };
+      const noted = at("2024-07-04", "", "7.0", "10", "晴");
+      noted.pointData = { ...noted.pointData, aerobic_upper: { "NO.2-2": { comment: "目詰まり気味" } } };
+      const byPoint = searchInspections({ [inspectionKey(noted)]: noted }, { text: "目詰まり", from: "", to: "", conditions: [] }, withComment);
+      return (
+        hits.length === 1 &&
+        hits[0].state.header.date === "2024-07-03" &&
+        hits[0].matches.some((m) => m.term === "汚泥" && m.where === "自由記入 備考") &&
+        hits[0].matches.some((m) => m.value === "55" && m.where.includes("No.2-2")) &&
+        !hits[0].matches.some((m) => m.value === "10") &&
+        rain.map((h) => h.state.header.date).join() === "2024-07-02" &&
+        byPoint.length === 1 &&
+        byPoint[0].matches.some((m) => m.where.includes("No.2-2") && m.where.includes("備考")) &&
+        searchInspections(archive, { text: "", from: "", to: "", conditions: [] }, DEFAULT_TEMPLATE).length === 0
+      );
+    });
+
+    // 追加テスト: テンプレートは JSON で往復でき、選択肢のない選択項目は拒否される
+    test("Template JSON round-trips and is validated", () => {
+      const back = validateTemplate(JSON.parse(JSON.stringify(DEFAULT_TEMPLATE)));
+      const bad = validateTemplate({ ...DEFAULT_TEMPLATE, fields: [{ key: "x", label: "X", kind: "select" }] });
+      return back.ok && JSON.stringify(back.template) === JSON.stringify(DEFAULT_TEMPLATE) && !bad.ok;
+    });
+
+    // 追加テスト: 承認済みの記録は別の内容の保存では上書きされず、承認解除を記録した版なら書き込める
+    // （登録していない使い捨ての施設 id で試し、記録・編集中データ・履歴・同期状態を片付ける）
+    testAsync("Approved records survive saves with other content", async () => {
+      const fid = `__locktest_${Math.random().toString(36).slice(2)}`;
+      const approved = makeInitialState();
+      approved.header = { ...approved.header, date: "2024-01-15" };
+      approved.signoff = { ...approved.signoff, approver: "佐藤", approvedAt: "2024-01-15 17:00" };
+      const id = recordId(fid, inspectionKey(approved));
+      const blank = makeInitialState();
+      blank.header = { ...blank.header, date: "2024-01-15" };
+      const unlocked: FormState = {
+        ...approved,
+        extraNote: "訂正",
+        signoff: { ...approved.signoff, approvedAt: "", unlocks: [{ by: "佐藤", at: "2024-01-16 09:00", reason: "訂正" }] },
+      };
+      const stored = async () => {
+        const db = await openDb();
+        const r = db.transaction(STORE_INSPECTIONS).objectStore(STORE_INSPECTIONS).get(id);
+        return (await idbRequest(r as IDBRequest<InspectionRecord | undefined>))?.state;
+      };
+      try {
+        await putArchiveEntry(fid, approved);
+        const overwritten = await saveWorkingState(fid, blank);
+        const kept = await stored();
+        const reopened = await saveWorkingState(fid, unlocked);
+        const after = await stored();
+        return (
+          !overwritten &&
+          kept?.signoff.approvedAt === "2024-01-15 17:00" &&
+          reopened &&
+          after?.extraNote === "訂正"
+        );
+      } finally {
+        const db = await openDb();
+        const tx = db.transaction([STORE_INSPECTIONS, STORE_KV, STORE_CHANGES, STORE_SYNC], "readwrite");
+        tx.objectStore(STORE_INSPECTIONS).delete(id);
+        tx.objectStore(STORE_KV).delete(workingKey(fid));
+        tx.objectStore(STORE_SYNC).delete(id);
+        const changes = tx.objectStore(STORE_CHANGES);
+        changes.index("record").getAllKeys(id).onsuccess = (e) => {
+          for (const k of (e.target as IDBRequest<IDBValidKey[]>).result) changes.delete(k);
+        };
+        await idbDone(tx);
+      }
+    });
+
     // 追加テスト: Toolbar が関数（JSX 断片が紛れ込んでいない）
     test("Toolbar is function", () => typeof Toolbar === "function");
 
@@ -561,25 +5221,70 @@ function ChecklistApp() {
 
   return (
     <div className="space-y-6">
+      <StorageStatus status={saveStatus} />
+      <LoadIssues issues={loadIssues} />
+      {locked && (
+        <div className="border border-blue-300 bg-blue-50 text-blue-900 rounded-2xl p-3 text-sm">
+          🔒 この記録は承認済みのため編集できません（{form.signoff.approver} {form.signoff.approvedAt}）。
+          修正する場合は「点検者・承認」で承認を解除してください。
+        </div>
+      )}
+
+      {carriedCount > 0 && !locked && (
+        <div className="border border-sky-300 bg-sky-50 text-sky-900 rounded-2xl p-3 text-sm flex flex-wrap items-center gap-2">
+          前回の記録から引き継いだ値が {carriedCount} 件あります（点線の欄）。値を確かめて、変えるか「確認」を押してください。
+          <button
+            className="ml-auto px-2 py-1 rounded-lg border border-sky-400 bg-white hover:bg-sky-100"
+            onClick={() => confirmCarried(Object.keys(form.carried))}
+          >
+            すべて確認
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        入力欄の比較値
+        <select
+          className="border rounded-xl px-2 py-1 bg-white"
+          value={settings.compareBasis}
+          onChange={(e) => setSettings((p) => ({ ...p, compareBasis: e.target.value as CompareBasis }))}
+        >
+          {Object.entries(COMPARE_BASIS_LABEL).map(([k, label]) => (
+            <option key={k} value={k}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <Card>
         <CardHeader title="共通情報" />
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <fieldset disabled={locked} className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <TextField
             label="日付"
             type="date"
+            path="header.date"
             value={form.header.date}
-            onChange={(v) =>
-              setForm((p) => ({ ...p, header: { ...p.header, date: v } }))
-            }
+            onChange={(v) => {
+              const next = { ...form, header: { ...form.header, date: v, weekday: weekdayOf(v) } };
+              const saved = approvedRecord(next);
+              if (saved) return alertApproved(saved);
+              setForm((p) => ({ ...p, header: { ...p.header, date: v, weekday: weekdayOf(v) } }));
+            }}
           />
           <TextField
-            label="曜日（任意）"
-            placeholder="例：水"
-            value={form.header.weekday}
-            onChange={(v) =>
-              setForm((p) => ({ ...p, header: { ...p.header, weekday: v } }))
-            }
+            label="巡回（任意）"
+            placeholder="例：午前／午後／降雨後"
+            value={form.header.round}
+            onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, round: v } }))}
+          />
+          <TextField
+            label="時刻"
+            type="time"
+            value={form.header.time}
+            onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, time: v } }))}
           />
+          <TextField label="曜日（日付から自動）" value={headerValue(form, "weekday")} readOnly />
           <SelectField
             label="天候"
             value={form.header.weather}
@@ -587,71 +5292,151 @@ function ChecklistApp() {
               setForm((p) => ({ ...p, header: { ...p.header, weather: v as any } }))
             }
             options={["", ...WEATHER]}
+            path="header.weather"
+            compare={compare((s) => s.header.weather, form.header.weather)}
+            carry={carryMark("header.weather")}
           />
           <NumberField
             label="外気温(℃)"
             value={form.header.airTemp}
+            spec={HEADER_NUMBER_SPEC.airTemp}
+            alarm={checkRange(rules, "header", "airTemp", form.header.airTemp)}
+            compare={compare((s) => s.header.airTemp, form.header.airTemp)}
+            carry={carryMark("header.airTemp")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, airTemp: v } }))}
           />
           <NumberField
             label="初沈界面 NO.1(m)"
             value={form.header.primarySettlingNo1}
+            spec={HEADER_NUMBER_SPEC.primarySettlingNo1}
+            alarm={checkRange(rules, "header", "primarySettlingNo1", form.header.primarySettlingNo1)}
+            compare={compare((s) => s.header.primarySettlingNo1, form.header.primarySettlingNo1)}
+            carry={carryMark("header.primarySettlingNo1")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, primarySettlingNo1: v } }))}
           />
           <NumberField
             label="初沈界面 NO.2(m)"
             value={form.header.primarySettlingNo2}
+            spec={HEADER_NUMBER_SPEC.primarySettlingNo2}
+            alarm={checkRange(rules, "header", "primarySettlingNo2", form.header.primarySettlingNo2)}
+            compare={compare((s) => s.header.primarySettlingNo2, form.header.primarySettlingNo2)}
+            carry={carryMark("header.primarySettlingNo2")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, primarySettlingNo2: v } }))}
           />
           <NumberField
             label="PAC残量(㎥)"
             value={form.header.pacRemaining}
+            spec={HEADER_NUMBER_SPEC.pacRemaining}
+            alarm={checkRange(rules, "header", "pacRemaining", form.header.pacRemaining)}
+            compare={compare((s) => s.header.pacRemaining, form.header.pacRemaining)}
+            carry={carryMark("header.pacRemaining")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, pacRemaining: v } }))}
           />
           <NumberField
             label="脱離液 pH"
             value={form.header.elutionPH}
+            spec={HEADER_NUMBER_SPEC.elutionPH}
+            alarm={checkRange(rules, "header", "elutionPH", form.header.elutionPH)}
+            compare={compare((s) => s.header.elutionPH, form.header.elutionPH)}
+            carry={carryMark("header.elutionPH")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, elutionPH: v } }))}
           />
           <NumberField
             label="脱離液 水温(℃)"
             value={form.header.elutionTemp}
+            spec={HEADER_NUMBER_SPEC.elutionTemp}
+            alarm={checkRange(rules, "header", "elutionTemp", form.header.elutionTemp)}
+            compare={compare((s) => s.header.elutionTemp, form.header.elutionTemp)}
+            carry={carryMark("header.elutionTemp")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, elutionTemp: v } }))}
           />
           <NumberField
             label="含水率(%)"
             value={form.header.waterContent}
+            spec={HEADER_NUMBER_SPEC.waterContent}
+            alarm={checkRange(rules, "header", "waterContent", form.header.waterContent)}
+            compare={compare((s) => s.header.waterContent, form.header.waterContent)}
+            carry={carryMark("header.waterContent")}
             onChange={(v) => setForm((p) => ({ ...p, header: { ...p.header, waterContent: v } }))}
           />
-        </div>
+        </fieldset>
+        <PacSummary
+          stats={pacStats({ ...readArchive(), [inspectionKey(form)]: form }, form.header.date, settings.pacReorderLevel)}
+          reorderLevel={settings.pacReorderLevel}
+          onReorderLevelChange={(pacReorderLevel) => setSettings((p) => ({ ...p, pacReorderLevel }))}
+        />
       </Card>
 
       <div className="grid grid-cols-1 gap-6">
-        {SECTION_DEFS.map((def) => (
+        {template.sections.map((def) => (
           <SectionCard
             key={def.key}
-            sectionKey={def.key}
-            title={def.label}
-            value={form.sections[def.key]}
-            visibleMap={form.visibility[def.key]}
+            section={def}
+            readOnly={locked}
+            fields={sectionFields(template, def, form.visibility[def.key])}
+            value={form.sections[def.key] ?? {}}
+            progress={progressOf(required.filter((e) => e.section === def.key))}
+            alarm={(k) => checkRange(rules, def.key, k, form.sections[def.key]?.[k])}
+            compare={(k) => compare((s) => s.sections[def.key]?.[k], form.sections[def.key]?.[k] ?? "")}
+            carry={(k) => carryMark(`sections.${def.key}.${k}`)}
             onChange={(s) =>
               setForm((p) => ({ ...p, sections: { ...p.sections, [def.key]: s } }))
             }
+            photos={form.photos.filter((x) => x.section === def.key && !x.point)}
+            onAddPhotos={(files) => addPhotos(def.key, undefined, files)}
+            onRemovePhoto={removePhoto}
           >
-            {POINT_SECTIONS.includes(def.key) && (
-              <div className="mt-4">
-                <PointSubsections
-                  sectionKey={def.key}
-                  points={form.points}
-                  visibility={form.visibility[def.key] ?? {}}
-                  value={form.pointData?.[def.key] || {}}
-                  onChange={(pd) =>
-                    setForm((p) => ({
-                      ...p,
-                      pointData: { ...p.pointData, [def.key]: pd },
-                    }))
-                  }
-                />
+            {def.perPoint && (
+              <div className="mt-4 space-y-3">
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="text-gray-600 mr-1">表示</span>
+                  {(["card", "grid"] as const).map((v) => (
+                    <button
+                      key={v}
+                      className={`px-2 py-1 rounded-lg border ${
+                        settings.pointView === v ? "bg-gray-800 text-white" : "hover:bg-gray-50"
+                      }`}
+                      onClick={() => setSettings((p) => ({ ...p, pointView: v }))}
+                    >
+                      {v === "card" ? "カード" : "表"}
+                    </button>
+                  ))}
+                </div>
+                {settings.pointView === "grid" ? (
+                  <PointGrid
+                    section={def}
+                    readOnly={locked}
+                    fields={sectionFields(template, def, form.visibility[def.key])}
+                    points={form.points}
+                    value={form.pointData?.[def.key] || {}}
+                    alarm={(id, k) => checkRange(rules, def.key, k, form.pointData?.[def.key]?.[id]?.[k], id)}
+                    carry={(id, k) => carryMark(`pointData.${def.key}["${id}"].${k}`)}
+                    onChange={(pd) => setForm((p) => ({ ...p, pointData: { ...p.pointData, [def.key]: pd } }))}
+                  />
+                ) : (
+                  <PointSubsections
+                    section={def}
+                    readOnly={locked}
+                    fields={sectionFields(template, def, form.visibility[def.key])}
+                    points={form.points}
+                    value={form.pointData?.[def.key] || {}}
+                    alarm={(id, k) => checkRange(rules, def.key, k, form.pointData?.[def.key]?.[id]?.[k], id)}
+                    compare={(id, k) =>
+                      compare((s) => s.pointData?.[def.key]?.[id]?.[k], String(form.pointData?.[def.key]?.[id]?.[k] ?? ""))
+                    }
+                    carry={(id, k) => carryMark(`pointData.${def.key}["${id}"].${k}`)}
+                    progress={(id) => progressOf(required.filter((e) => e.section === def.key && e.point === id))}
+                    onChange={(pd) =>
+                      setForm((p) => ({
+                        ...p,
+                        pointData: { ...p.pointData, [def.key]: pd },
+                      }))
+                    }
+                    photos={form.photos.filter((x) => x.section === def.key && x.point)}
+                    onAddPhotos={(id, files) => addPhotos(def.key, id, files)}
+                    onRemovePhoto={removePhoto}
+                  />
+                )}
               </div>
             )}
           </SectionCard>
@@ -661,160 +5446,450 @@ function ChecklistApp() {
       {/* 自由記入 備考（放流水の次のカード） */}
       <Card>
         <CardHeader title="自由記入 備考" />
-        <div className="grid grid-cols-1">
+        <fieldset disabled={locked} className="grid grid-cols-1">
           <TextArea
             label="備 考"
             value={form.extraNote}
             onChange={(v) => setForm((p) => ({ ...p, extraNote: v }))}
           />
-        </div>
+        </fieldset>
       </Card>
 
+      <SignOffPanel value={form.signoff} onChange={(signoff) => setForm((p) => ({ ...p, signoff }))} />
+
       <HistoryPanel
         currentDate={form.header.date}
-        onLoad={(d) => {
-          const a = readArchive();
-          const snap = a[d];
-          if (snap) setForm(snap);
+        currentKey={inspectionKey(form)}
+        onLoad={openArchived}
+        onExport={(key) => {
+          const snap = readArchive()[key];
+          if (snap) exportExcel(snap);
         }}
+        onExportDay={(d) => {
+          const forms = roundsOn(readArchive(), d);
+          if (!confirmInvalidBeforeExport(forms, template)) return;
+          const notes = confirmIncomplete(forms, template, "Excel出力");
+          if (!notes) return;
+          recordIncomplete(notes);
+          exportDayExcel(d, template, facility.name).catch((e) => alert(`エクスポートに失敗しました: ${String(e)}`));
+        }}
+        onAddRound={addRound}
         onDelete={(d) => {
-          const a = readArchive();
-          if (a[d]) {
-            delete a[d];
-            writeArchive(a);
-          }
+          persist(deleteArchiveEntry(facility.id, d)).then(() => setArchiveTick((t) => t + 1));
         }}
         onSave={() => {
-          const a = readArchive();
-          a[form.header.date] = form;
-          writeArchive(a);
-          alert("この日付の点検結果を保存しました");
+          const notes = confirmIncomplete([form], template, "保存");
+          if (!notes) return;
+          const written = putArchiveEntry(facility.id, form);
+          persist(written).then(async (ok) => {
+            if (!ok) return;
+            if (!(await written)) return alert("この日付・巡回は承認済みの記録があるため保存しませんでした");
+            recordIncomplete(notes);
+            alert("この日付の点検結果を保存しました");
+          });
+        }}
+        facilities={facilities.filter((x) => x.id !== facility.id)}
+        onTransfer={transferDay}
+      />
+
+      <SearchPanel
+        template={template}
+        points={settings.points}
+        onOpen={openArchived}
+        onExport={(hits, q) => {
+          const archive = readArchive();
+          const forms = [...new Set(hits.map((h) => h.state.header.date))].flatMap((d) => roundsOn(archive, d));
+          if (!confirmInvalidBeforeExport(forms, template)) return;
+          const notes = confirmIncomplete(forms, template, "Excel出力");
+          if (!notes) return;
+          recordIncomplete(notes);
+          exportSearchExcel(hits, q, template, facility.name);
+        }}
+      />
+
+      <ChangeHistoryPanel
+        facilityId={facility.id}
+        recordKey={inspectionKey(form)}
+        onRestore={(state) => {
+          if (locked) return alert("承認済みの記録は復元できません。先に承認を解除してください。");
+          const v = validateFormState(state, template);
+          if (!v.ok) return alert(`この版は読み込めません: ${v.error}`);
+          if (confirm("この版に戻しますか？（現在の内容も履歴に残ります）")) openForm(v.state);
+        }}
+      />
+
+      <TemplateEditor template={template} onApply={applyTemplate} />
+
+      <PointManager points={settings.points} onChange={applyPoints} />
+
+      <RangeRulesPanel
+        template={template}
+        rules={rules}
+        points={settings.points}
+        onChange={(rangeRules) => setSettings((p) => ({ ...p, rangeRules }))}
+      />
+
+      <ImportPanel
+        template={template}
+        points={settings.points}
+        facilityName={facility.name}
+        onImport={(s) => {
+          const written = putArchiveEntry(facility.id, s);
+          persist(written).then(async (ok) => {
+            if (!ok) return;
+            if (!(await written)) return alert(`${s.header.date} は承認済みのため取り込めませんでした`);
+            // 編集中の日付なら作業中データも差し替える（自動保存で戻されないように）
+            if (inspectionKey(s) === inspectionKey(form)) setForm(s);
+            else setArchiveTick((t) => t + 1);
+            alert(`${s.header.date} を取り込みました`);
+          });
+        }}
+      />
+
+      <BackupPanel
+        onRestore={async (backup, mode, items) => {
+          // 入力途中の内容を先に保存してから復元する（統合では手元の版として扱う）
+          latest.current.dirty = false;
+          await saveWorkingState(facility.id, latest.current.form);
+          onRestored(await applyRestore(backup, mode, items));
+        }}
+      />
+
+      <MonthlyExportPanel
+        currentDate={form.header.date}
+        onExportMonth={(m) => {
+          const forms = inspectionsInMonth(readArchive(), m);
+          if (!confirmInvalidBeforeExport(forms, template)) return;
+          const notes = confirmIncomplete(forms, template, "月報出力");
+          if (!notes) return;
+          recordIncomplete(notes);
+          exportMonthlyExcel(m, template, facility.name).catch((e) => alert(`エクスポートに失敗しました: ${String(e)}`));
         }}
+        onPrintMonth={(m) => printForms(`inspection_${fileSafe(facility.name)}_${m}`, inspectionsInMonth(readArchive(), m))}
       />
 
-      <Toolbar onExportExcel={exportExcel} onReset={resetAll} onPreview={openPreview} />
+      <TrendPanel currentDate={form.header.date} template={template} />
+
+      <StatisticsPanel currentDate={form.header.date} template={template} facilityName={facility.name} />
+
+      {newOpen && (
+        <NewInspectionDialog
+          template={template}
+          carryOver={settings.carryOver}
+          onCarryOverChange={(carryOver) => setSettings((p) => ({ ...p, carryOver }))}
+          onOpen={(s) => {
+            setNewOpen(false);
+            openForm(s);
+          }}
+          onCreate={createInspection}
+          onClose={() => setNewOpen(false)}
+        />
+      )}
+
+      <Toolbar
+        required={required}
+        onJump={jumpToInput}
+        onNew={() => {
+          flush();
+          setNewOpen(true);
+        }}
+        onExportExcel={() => exportExcel(form)}
+        onPrintPdf={() => printForms(excelFileName(form).replace(/\.xlsx$/, ""), [form])}
+        onReset={resetAll}
+        onPreview={openPreview}
+      />
       {previewOpen && (
-        <PreviewSheet rows={toSheetRows(form)} onClose={closePreview} />
+        <PreviewSheet
+          rows={previewRows}
+          alarms={previewAlarms}
+          exceedances={findExceedances(form, rules, template).map((e) => describeExceedance(template, e))}
+          onClose={closePreview}
+        />
+      )}
+      {printJob &&
+        createPortal(
+          <PrintSheets forms={printJob.forms} template={template} rules={rules} facilityName={facility.name} />,
+          document.body
+        )}
+    </div>
+  );
+}
+
+// 新しい点検の作成: 日付・（同じ日に記録があれば）巡回名・引き継ぐ項目を選ぶ
+function NewInspectionDialog({
+  template,
+  carryOver,
+  onCarryOverChange,
+  onOpen,
+  onCreate,
+  onClose,
+}: {
+  template: PlantTemplate;
+  carryOver: string[];
+  onCarryOverChange: (keys: string[]) => void;
+  onOpen: (s: FormState) => void;
+  onCreate: (date: string, round: string, source: FormState | undefined, keys: string[]) => void;
+  onClose: () => void;
+}) {
+  const archive = readArchive();
+  // 端末の日付（toISOString は UTC なので、日本時間の 9 時前は前日になる）
+  const [date, setDate] = useState(() => formatStamp(new Date()).slice(0, 10));
+  const [round, setRound] = useState("");
+  const [carry, setCarry] = useState(true);
+  const existing = roundsOn(archive, date);
+  // 引継ぎ元: 選んだ日より前の直近の点検
+  const source = Object.values(archive)
+    .filter((s) => s.header.date < date)
+    .sort((a, b) => compareInspections(b, a))[0];
+  const toggle = (key: string) =>
+    onCarryOverChange(carryOver.includes(key) ? carryOver.filter((k) => k !== key) : [...carryOver, key]);
+  const chip = (key: string, label: string) => (
+    <label key={key} className="flex items-center gap-1 border rounded-lg px-2 py-0.5">
+      <input type="checkbox" checked={carryOver.includes(key)} onChange={() => toggle(key)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] overflow-auto p-4 space-y-3 text-sm">
+        <h3 className="font-semibold">新しい点検</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <TextField label="日付" type="date" value={date} onChange={setDate} />
+          {existing.length > 0 && (
+            <TextField label="巡回名" placeholder="例：午後／降雨後" value={round} onChange={setRound} />
+          )}
+        </div>
+        {existing.length > 0 && (
+          <div className="border border-amber-300 bg-amber-50 rounded-xl p-2 space-y-1">
+            <div>
+              {date} には既に {existing.length} 件の記録があります。既存の記録はそのままで、新しい巡回として追加します。
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {existing.map((s, i) => (
+                <button key={inspectionKey(s)} className="px-2 py-1 rounded-lg border bg-white hover:bg-gray-50" onClick={() => onOpen(s)}>
+                  {roundLabel(s, i)} を開く
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={carry && !!source} disabled={!source} onChange={(e) => setCarry(e.target.checked)} />
+          {source
+            ? `直近の記録（${source.header.date} ${source.header.round}）から値を引き継ぐ`
+            : "引き継げる記録がありません（選んだ日より前の記録なし）"}
+        </label>
+        {carry && source && (
+          <div className="space-y-2 border rounded-xl p-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="w-28 text-gray-600">共通情報</span>
+              {CARRY_HEADER_FIELDS.map((h) => chip(`header.${h.key}`, h.label))}
+            </div>
+            {template.sections.map((sec) => (
+              <div key={sec.key} className="flex flex-wrap items-center gap-2">
+                <span className="w-28 text-gray-600">{sec.label}</span>
+                {sectionFields(template, sec)
+                  .filter((d) => d.kind !== "text")
+                  .map((d) => chip(`${sec.key}.${d.key}`, fieldLabel(d)))}
+              </div>
+            ))}
+            <div className="text-xs text-gray-500">引き継いだ値は、確認するまで点線の枠で表示されます。選んだ項目は次回も使われます。</div>
+          </div>
+        )}
+        <div className="flex gap-2 justify-end">
+          <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={onClose}>
+            キャンセル
+          </button>
+          <button
+            className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            disabled={!date}
+            onClick={() => onCreate(date, round.trim(), carry ? source : undefined, carryOver)}
+          >
+            {existing.length ? "巡回を追加して開始" : "作成して開始"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 点検者の提出 → 承認者の承認 → （必要なら理由を付けて）承認解除
+function SignOffPanel({ value, onChange }: { value: SignOff; onChange: (v: SignOff) => void }) {
+  const [unlockBy, setUnlockBy] = useState("");
+  const [reason, setReason] = useState("");
+  const set = (patch: Partial<SignOff>) => onChange({ ...value, ...patch });
+  const now = () => formatStamp(new Date());
+  const unlock = () => {
+    if (!unlockBy.trim() || !reason.trim()) return alert("解除する人と理由を入力してください");
+    set({ approvedAt: "", unlocks: [...value.unlocks, { by: unlockBy.trim(), at: now(), reason: reason.trim() }] });
+    setReason("");
+  };
+
+  return (
+    <Card>
+      <CardHeader title="点検者・承認" />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+        {!value.submittedAt ? (
+          <>
+            <TextField label="点検者" value={value.inspector} onChange={(inspector) => set({ inspector })} />
+            <button
+              className="px-3 py-2 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+              disabled={!value.inspector.trim()}
+              onClick={() => set({ inspector: value.inspector.trim(), submittedAt: now() })}
+            >
+              提出
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="text-sm">
+              提出: {value.inspector}（{value.submittedAt}）
+            </div>
+            {!value.approvedAt && (
+              <button
+                className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+                onClick={() => set({ submittedAt: "" })}
+              >
+                提出を取り消す
+              </button>
+            )}
+          </>
+        )}
+        {value.submittedAt && !value.approvedAt && (
+          <>
+            <TextField label="承認者" value={value.approver} onChange={(approver) => set({ approver })} />
+            <button
+              className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              disabled={!value.approver.trim()}
+              onClick={() =>
+                confirm("承認すると、この記録は編集できなくなります。承認しますか？") &&
+                set({ approver: value.approver.trim(), approvedAt: now() })
+              }
+            >
+              承認
+            </button>
+          </>
+        )}
+        {value.approvedAt && (
+          <>
+            <div className="text-sm md:col-span-2">
+              🔒 承認: {value.approver}（{value.approvedAt}）
+            </div>
+            <TextField label="解除する人" value={unlockBy} onChange={setUnlockBy} />
+            <TextField label="解除の理由（必須）" value={reason} onChange={setReason} />
+            <button className="px-3 py-2 rounded-xl bg-gray-600 text-white hover:bg-gray-700" onClick={unlock}>
+              承認を解除
+            </button>
+          </>
+        )}
+      </div>
+      {value.unlocks.length > 0 && (
+        <ul className="mt-3 text-xs text-gray-600 list-disc pl-5">
+          {value.unlocks.map((u, i) => (
+            <li key={i}>
+              {u.at} {u.by} が承認を解除: {u.reason}
+            </li>
+          ))}
+        </ul>
       )}
+      {value.incomplete.length > 0 && (
+        <ul className="mt-3 text-xs text-amber-800 list-disc pl-5">
+          {value.incomplete.map((u, i) => (
+            <li key={i}>
+              {u.at} {u.by} が未入力 {u.missing} 項目のまま{u.action}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+// PAC の計算値（共通情報カードの下）。発注レベルは施設の設定
+function PacSummary({
+  stats,
+  reorderLevel,
+  onReorderLevelChange,
+}: {
+  stats: PacStats;
+  reorderLevel: string;
+  onReorderLevelChange: (v: string) => void;
+}) {
+  const pac = formatPac(stats);
+  return (
+    <div className="mt-4 border-t pt-3 grid grid-cols-1 md:grid-cols-2 gap-3 items-end text-sm">
+      <div className="space-y-1">
+        <div>
+          PAC使用量：<span className="font-semibold">{pac.usage || "—"}</span>
+          {pac.usage && pac.usage !== "補充" && " ㎥/日"}
+        </div>
+        <div>
+          {PAC_AVERAGE_DAYS}日平均：<span className="font-semibold">{pac.average || "—"}</span>
+          {pac.average && " ㎥/日"}
+        </div>
+        <div className={stats.belowLevel ? "text-red-700 font-semibold" : ""}>
+          発注レベル到達見込み：{pac.forecast || (reorderLevel ? "—（使用量の記録が足りません）" : "—（発注レベル未設定）")}
+        </div>
+      </div>
+      <NumberField label="PAC 発注レベル(㎥)" value={reorderLevel} onChange={onReorderLevelChange} />
     </div>
   );
 }
 
 function SectionCard({
-  sectionKey,
-  title,
+  section,
+  fields,
   value,
-  visibleMap,
+  alarm,
+  compare,
+  carry,
+  readOnly = false,
   onChange,
+  photos = [],
+  onAddPhotos,
+  onRemovePhoto,
+  progress,
   children,
 }: {
-  sectionKey: SectionKey;
-  title: string;
+  section: SectionDef;
+  fields: FieldDef[]; // 表示する項目（可視マップ適用済み）
   value: SectionForm;
-  visibleMap?: Partial<Record<FieldKey, boolean>>;
+  progress?: Progress; // ポイント記録のセクションは全ポイント分
+  alarm?: (k: FieldKey) => string | null;
+  compare?: (k: FieldKey) => Comparison | null;
+  carry?: (k: FieldKey) => CarryMark | null;
+  readOnly?: boolean; // 承認済み
   onChange: (v: SectionForm) => void;
+  photos?: PhotoRef[]; // セクション全体に添付した写真
+  onAddPhotos?: (files: File[]) => void;
+  onRemovePhoto?: (id: string) => void;
   children?: React.ReactNode;
 }) {
-  const set = (patch: Partial<SectionForm>) => onChange({ ...value, ...patch });
-  const v = (k: FieldKey) => visibleMap?.[k] !== false;
-
-  // セクション側入力の表示制御：上部/下部は非表示、それ以外は表示
-  const hideSectionInputs =
-    sectionKey === "aerobic_upper" || sectionKey === "aerobic_lower";
-
-  const anyVisible = (
-    [
-      "odor",
-      "color",
-      "temp",
-      "turbidity",
-      "pH",
-      "DO",
-      "residualChlorine",
-      "headLoss",
-      "aeration",
-      "comment",
-    ] as FieldKey[]
-  ).some((k) => v(k));
+  const set = (patch: SectionForm) => !readOnly && onChange({ ...value, ...patch });
 
+  // ポイント記録のセクションはセクション側の入力を出さない
   return (
     <Card>
-      <CardHeader title={`【${title}】`} />
-      {!hideSectionInputs && anyVisible && (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {v("odor") && (
-            <SelectField
-              label="臭 気"
-              value={value.odor || ""}
-              onChange={(val) => set({ odor: val as any })}
-              options={["", ...ODOR]}
-            />
-          )}
-          {v("color") && (
-            <SelectField
-              label="色 相"
-              value={value.color || ""}
-              onChange={(val) => set({ color: val as any })}
-              options={["", ...COLOR_INFLUENT]}
-            />
-          )}
-          {v("temp") && (
-            <NumberField
-              label="水温(℃)"
-              value={value.temp || ""}
-              onChange={(v) => set({ temp: v })}
-            />
-          )}
-          {v("turbidity") && (
-            <NumberField
-              label="透視度"
-              value={value.turbidity || ""}
-              onChange={(v) => set({ turbidity: v })}
-            />
-          )}
-          {v("pH") && (
-            <NumberField
-              label="pH"
-              value={value.pH || ""}
-              onChange={(v) => set({ pH: v })}
-            />
-          )}
-          {v("DO") && (
-            <NumberField
-              label="DO(mg/L)"
-              value={value.DO || ""}
-              onChange={(v) => set({ DO: v })}
-            />
-          )}
-          {v("residualChlorine") && (
-            <NumberField
-              label="残塩(mg/L)"
-              value={value.residualChlorine || ""}
-              onChange={(v) => set({ residualChlorine: v })}
-            />
-          )}
-          {v("headLoss") && (
-            <NumberField
-              label="ろ抗高"
-              value={value.headLoss || ""}
-              onChange={(v) => set({ headLoss: v })}
-            />
-          )}
-          {v("aeration") && (
-            <NumberField
-              label="送気量"
-              value={value.aeration || ""}
-              onChange={(v) => set({ aeration: v })}
-            />
-          )}
-          {v("comment") && (
-            <TextArea
-              label="備 考"
-              value={value.comment || ""}
-              onChange={(val) => set({ comment: val })}
+      <CardHeader title={`【${section.label}】`} aside={<ProgressBadge progress={progress} />} />
+      {!section.perPoint && fields.length > 0 && (
+        <fieldset disabled={readOnly} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {fields.map((d) => (
+            <FieldInput
+              key={d.key}
+              def={d}
+              value={value[d.key] || ""}
+              alarm={alarm?.(d.key)}
+              compare={compare?.(d.key)}
+              carry={carry?.(d.key)}
+              path={`sections.${section.key}.${d.key}`}
+              onChange={(v) => set({ [d.key]: v })}
             />
-          )}
-        </div>
+          ))}
+        </fieldset>
+      )}
+      {onAddPhotos && (
+        <PhotoStrip photos={photos} readOnly={readOnly} onAdd={onAddPhotos} onRemove={(id) => onRemovePhoto?.(id)} />
       )}
       {children}
     </Card>
@@ -822,103 +5897,71 @@ function SectionCard({
 }
 
 function PointSubsections({
-  sectionKey,
+  section,
+  fields,
   points,
-  visibility,
   value,
+  alarm,
+  compare,
+  carry,
+  readOnly = false,
   onChange,
+  photos = [],
+  onAddPhotos,
+  onRemovePhoto,
+  progress,
 }: {
-  sectionKey: SectionKey;
-  points: string[];
-  visibility: Partial<Record<FieldKey, boolean>>;
+  section: SectionDef;
+  fields: FieldDef[];
+  points: PointRef[];
   value: PointDataMap;
+  progress?: (id: string) => Progress;
+  alarm?: (id: string, k: FieldKey) => string | null;
+  compare?: (id: string, k: FieldKey) => Comparison | null;
+  carry?: (id: string, k: FieldKey) => CarryMark | null;
+  readOnly?: boolean; // 承認済み
   onChange: (v: PointDataMap) => void;
+  photos?: PhotoRef[]; // ポイントに添付した写真（point で振り分け）
+  onAddPhotos?: (id: string, files: File[]) => void;
+  onRemovePhoto?: (id: string) => void;
 }) {
-  const vis = (k: FieldKey) => visibility?.[k] !== false;
-  const set = (label: string, patch: Partial<SectionForm>) => {
-    onChange({ ...value, [label]: { ...(value[label] || {}), ...patch } });
+  const set = (id: string, patch: SectionForm) => {
+    if (readOnly) return;
+    onChange({ ...value, [id]: { ...(value[id] || {}), ...patch } });
   };
 
   return (
     <div className="grid grid-cols-1 gap-4">
-      {points.map((label) => {
-        const rec = value[label] || {};
+      {points.map(({ id, label }) => {
+        const rec = value[id] || {};
         return (
-          <Card key={label}>
+          <Card key={id}>
             <CardHeader
-              title={`【${
-                sectionKey === "aerobic_upper"
-                  ? "好気性ろ床 上部"
-                  : "好気性ろ床 下部・処理水"
-              } ${displayPointLabel(label)}】`}
+              title={`【${section.label} ${displayPointLabel(label)}】`}
+              aside={<ProgressBadge progress={progress?.(id)} />}
             />
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {vis("odor") && (
-                <SelectField
-                  label="臭 気"
-                  value={String(rec.odor ?? "")}
-                  onChange={(v) => set(label, { odor: v as any })}
-                  options={["", ...ODOR]}
-                />
-              )}
-              {vis("color") && (
-                <SelectField
-                  label="色 相"
-                  value={String(rec.color ?? "")}
-                  onChange={(v) => set(label, { color: v as any })}
-                  options={["", ...COLOR_INFLUENT]}
-                />
-              )}
-              {vis("temp") && (
-                <NumberField
-                  label="水温(℃)"
-                  value={String(rec.temp ?? "")}
-                  onChange={(v) => set(label, { temp: v })}
-                />
-              )}
-              {vis("turbidity") && (
-                <NumberField
-                  label="透視度"
-                  value={String(rec.turbidity ?? "")}
-                  onChange={(v) => set(label, { turbidity: v })}
-                />
-              )}
-              {vis("pH") && (
-                <NumberField
-                  label="pH"
-                  value={String(rec.pH ?? "")}
-                  onChange={(v) => set(label, { pH: v })}
+            <fieldset disabled={readOnly} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {fields.map((d) => (
+                <FieldInput
+                  key={d.key}
+                  def={d}
+                  value={String(rec[d.key] ?? "")}
+                  alarm={alarm?.(id, d.key)}
+                  compare={compare?.(id, d.key)}
+                  carry={carry?.(id, d.key)}
+                  path={`pointData.${section.key}["${id}"].${d.key}`}
+                  onChange={(v) => set(id, { [d.key]: v })}
                 />
-              )}
-              {vis("DO") && (
-                <NumberField
-                  label="DO(mg/L)"
-                  value={String(rec.DO ?? "")}
-                  onChange={(v) => set(label, { DO: v })}
-                />
-              )}
-              {vis("residualChlorine") && (
-                <NumberField
-                  label="残塩(mg/L)"
-                  value={String(rec.residualChlorine ?? "")}
-                  onChange={(v) => set(label, { residualChlorine: v })}
-                />
-              )}
-              {vis("headLoss") && (
-                <NumberField
-                  label="ろ抗高"
-                  value={String(rec.headLoss ?? "")}
-                  onChange={(v) => set(label, { headLoss: v })}
-                />
-              )}
-              {vis("aeration") && (
-                <NumberField
-                  label="送気量"
-                  value={String(rec.aeration ?? "")}
-                  onChange={(v) => set(label, { aeration: v })}
-                />
-              )}
-            </div>
+              ))}
+            </fieldset>
+            {onAddPhotos && (
+              <PhotoStrip
+                photos={photos.filter((x) => x.point === id)}
+                readOnly={readOnly}
+                onAdd={(files) => onAddPhotos(id, files)}
+                onRemove={(pid) => onRemovePhoto?.(pid)}
+              />
+            )}
           </Card>
         );
       })}
@@ -926,54 +5969,696 @@ function PointSubsections({
   );
 }
 
+// ---- ポイント入力の表（行=ポイント・列=項目）----
+// タブ区切り（Excel やメーターのソフトからのコピー）を行×列に。末尾の空行は捨てる
+function parseTsv(text: string): string[][] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines.map((line) => line.split("\t").map((v) => v.trim()));
+}
+
+// 貼り付けは (row, col) を左上として表に収まる分だけ。選択肢に無い値は飛ばして数える
+function applyGridPaste(
+  value: PointDataMap,
+  points: PointRef[],
+  fields: FieldDef[],
+  row: number,
+  col: number,
+  text: string
+): { next: PointDataMap; skipped: number } {
+  const next: PointDataMap = { ...value };
+  let skipped = 0;
+  parseTsv(text).forEach((cells, i) => {
+    const p = points[row + i];
+    if (!p) return;
+    const rec: SectionForm = { ...(next[p.id] || {}) };
+    cells.forEach((raw, j) => {
+      const d = fields[col + j];
+      if (!d) return;
+      if (d.kind === "select") {
+        if (raw === "" || d.options?.includes(raw)) rec[d.key] = raw;
+        else skipped++;
+      } else if (d.kind === "number") {
+        rec[d.key] = normalizeNumberInput(raw, !!d.allowNegative);
+      } else rec[d.key] = raw;
+    });
+    next[p.id] = rec;
+  });
+  return { next, skipped };
+}
+
+function PointGrid({
+  section,
+  fields,
+  points,
+  value,
+  alarm,
+  carry,
+  readOnly = false,
+  onChange,
+}: {
+  section: SectionDef;
+  fields: FieldDef[];
+  points: PointRef[];
+  value: PointDataMap;
+  alarm?: (id: string, k: FieldKey) => string | null;
+  carry?: (id: string, k: FieldKey) => CarryMark | null;
+  readOnly?: boolean; // 承認済み
+  onChange: (v: PointDataMap) => void;
+}) {
+  const cells = useRef<Record<string, HTMLInputElement | HTMLSelectElement | null>>({});
+  const [active, setActive] = useState<{ row: number; col: number } | null>(null);
+  const [notice, setNotice] = useState("");
+  const cellOf = (id: string, k: FieldKey) => String(value[id]?.[k] ?? "");
+  const set = (id: string, patch: SectionForm) => {
+    if (readOnly) return;
+    onChange({ ...value, [id]: { ...(value[id] || {}), ...patch } });
+  };
+  const focus = (row: number, col: number) => {
+    const el = cells.current[`${row}:${col}`];
+    if (!el) return;
+    el.focus();
+    if (el instanceof HTMLInputElement) el.select();
+  };
+  // 列の値を下の行へ（Ctrl+D は1つ上の値を写す）
+  const fillDown = (row: number, col: number) => {
+    const d = fields[col];
+    const v = cellOf(points[row].id, d.key);
+    const next = { ...value };
+    for (const p of points.slice(row + 1)) next[p.id] = { ...(next[p.id] || {}), [d.key]: v };
+    if (!readOnly) onChange(next);
+  };
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>, row: number, col: number) => {
+    const el = e.currentTarget;
+    const atStart = !(el instanceof HTMLInputElement) || (el.selectionStart === 0 && el.selectionEnd === 0);
+    const atEnd = !(el instanceof HTMLInputElement) || el.selectionEnd === el.value.length;
+    const move = (r: number, c: number) => {
+      e.preventDefault();
+      if (r >= 0 && r < points.length && c >= 0 && c < fields.length) focus(r, c);
+    };
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "d") {
+      e.preventDefault();
+      if (row > 0) set(points[row].id, { [fields[col].key]: cellOf(points[row - 1].id, fields[col].key) });
+    } else if (e.key === "Enter") move(e.shiftKey ? row - 1 : row + 1, col);
+    else if (e.key === "ArrowDown") move(row + 1, col);
+    else if (e.key === "ArrowUp") move(row - 1, col);
+    else if (e.key === "ArrowLeft" && atStart) move(row, col - 1);
+    else if (e.key === "ArrowRight" && atEnd) move(row, col + 1);
+  };
+  const onPaste = (e: React.ClipboardEvent, row: number, col: number) => {
+    const text = e.clipboardData.getData("text/plain");
+    // 1つの値だけなら通常の貼り付け
+    if (readOnly || !/[\t\n]/.test(text.replace(/\r?\n$/, ""))) return;
+    e.preventDefault();
+    const { next, skipped } = applyGridPaste(value, points, fields, row, col, text);
+    onChange(next);
+    setNotice(skipped ? `選択肢に無い値 ${skipped} 件は貼り付けませんでした` : "");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        矢印/Enter で移動・Ctrl+D で上の値をコピー・Excel からタブ区切りのまま貼り付け可
+        <button
+          className="ml-auto px-2 py-1 rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+          disabled={readOnly || !active}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => active && fillDown(active.row, active.col)}
+        >
+          下へコピー
+        </button>
+      </div>
+      {notice && <div className="text-xs text-amber-700">{notice}</div>}
+      <div className="overflow-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="border px-2 py-1 bg-gray-50 text-left">ポイント</th>
+              {fields.map((d) => (
+                <th key={d.key} className="border px-2 py-1 bg-gray-50 whitespace-nowrap">
+                  {fieldLabel(d)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((p, row) => (
+              <tr key={p.id}>
+                <th className="border px-2 py-1 bg-gray-50 text-left whitespace-nowrap">{displayPointLabel(p.label)}</th>
+                {fields.map((d, col) => {
+                  const v = cellOf(p.id, d.key);
+                  const problem = d.kind === "number" ? numberProblem(v, d) : null;
+                  const message = [problem, alarm?.(p.id, d.key)].filter(Boolean).join(" / ");
+                  const mark = carry?.(p.id, d.key);
+                  const cls = `w-full min-w-[5rem] px-2 py-1 focus:outline-none focus:ring disabled:bg-gray-100 ${
+                    message ? "bg-red-50 text-red-800" : mark ? CARRIED_INPUT : "bg-white"
+                  }`;
+                  const common = {
+                    ref: (el: HTMLInputElement | HTMLSelectElement | null) => (cells.current[`${row}:${col}`] = el),
+                    disabled: readOnly,
+                    title: message || (mark ? `${mark.from}から引継ぎ（未確認）` : undefined),
+                    "aria-label": `${displayPointLabel(p.label)} ${fieldLabel(d)}`,
+                    onFocus: () => setActive({ row, col }),
+                    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => onKeyDown(e, row, col),
+                    onPaste: (e: React.ClipboardEvent) => onPaste(e, row, col),
+                  };
+                  return (
+                    <td key={d.key} className="border p-0" data-path={`pointData.${section.key}["${p.id}"].${d.key}`}>
+                      {d.kind === "select" ? (
+                        <select {...common} className={cls} value={v} onChange={(e) => set(p.id, { [d.key]: e.target.value })}>
+                          {["", ...(d.options ?? [])].map((o) => (
+                            <option key={o} value={o}>
+                              {o === "" ? "—" : o}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          {...common}
+                          type="text"
+                          inputMode={d.kind === "number" ? "decimal" : undefined}
+                          className={cls}
+                          value={v}
+                          onChange={(e) =>
+                            set(p.id, {
+                              [d.key]: d.kind === "number" ? normalizeNumberInput(e.target.value, !!d.allowNegative) : e.target.value,
+                            })
+                          }
+                        />
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">比較値・写真・引継ぎの確認はカード表示で</div>
+    </div>
+  );
+}
+
+// IndexedDB の写真を表示する（object URL はアンマウント時に解放）
+function PhotoImage({ id, full = false, className }: { id: string; full?: boolean; className?: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+  useEffect(() => {
+    let u: string | null = null;
+    let alive = true;
+    getPhoto(id).then(
+      (rec) => {
+        if (!alive) return;
+        if (!rec) return setMissing(true);
+        u = URL.createObjectURL(full ? rec.image : rec.thumb);
+        setUrl(u);
+      },
+      () => alive && setMissing(true)
+    );
+    return () => {
+      alive = false;
+      if (u) URL.revokeObjectURL(u);
+    };
+  }, [id, full]);
+  if (missing) return <div className={`${className ?? ""} flex items-center justify-center text-xs text-gray-400 bg-gray-100`}>画像なし</div>;
+  if (!url) return <div className={`${className ?? ""} bg-gray-100`} />;
+  return <img src={url} alt="" className={className} />;
+}
+
+// 添付写真のサムネイル列と、カメラ/ファイルからの追加
+function PhotoStrip({
+  photos,
+  readOnly,
+  onAdd,
+  onRemove,
+}: {
+  photos: PhotoRef[];
+  readOnly: boolean;
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+}) {
+  const [viewing, setViewing] = useState<PhotoRef | null>(null);
+  const pick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length) onAdd(files);
+  };
+  if (readOnly && photos.length === 0) return null;
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      {photos.map((p) => (
+        <div key={p.id} className="relative">
+          <button type="button" onClick={() => setViewing(p)} title={`${p.name} (${p.at})`}>
+            <PhotoImage id={p.id} className="w-20 h-20 object-cover rounded-lg border" />
+          </button>
+          {!readOnly && (
+            <button
+              type="button"
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-600 text-white text-xs leading-5"
+              onClick={() => confirm("この写真を外しますか？") && onRemove(p.id)}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <>
+          <label className="px-3 py-1.5 rounded-xl border text-sm cursor-pointer hover:bg-gray-50">
+            📷 撮影
+            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={pick} />
+          </label>
+          <label className="px-3 py-1.5 rounded-xl border text-sm cursor-pointer hover:bg-gray-50">
+            写真を選ぶ
+            <input type="file" accept="image/*" multiple className="hidden" onChange={pick} />
+          </label>
+        </>
+      )}
+      {viewing && (
+        <div className="fixed inset-0 z-20 bg-black/70 flex flex-col items-center justify-center p-4" onClick={() => setViewing(null)}>
+          <PhotoImage id={viewing.id} full className="max-w-full max-h-[85vh] rounded-lg" />
+          <div className="mt-2 text-sm text-white">
+            {viewing.name}（{viewing.at}）
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// テンプレートの項目種別に応じた入力欄
+function FieldInput({
+  def,
+  value,
+  alarm,
+  compare,
+  carry,
+  path,
+  onChange,
+}: {
+  def: FieldDef;
+  value: string;
+  alarm?: string | null;
+  compare?: Comparison | null;
+  carry?: CarryMark | null;
+  path?: string;
+  onChange: (v: string) => void;
+}) {
+  if (def.kind === "select") {
+    return (
+      <SelectField
+        label={fieldLabel(def)}
+        value={value}
+        onChange={onChange}
+        options={["", ...(def.options ?? [])]}
+        compare={compare}
+        carry={carry}
+        path={path}
+      />
+    );
+  }
+  if (def.kind === "text") return <TextArea label={fieldLabel(def)} value={value} onChange={onChange} />;
+  return (
+    <NumberField
+      label={fieldLabel(def)}
+      value={value}
+      spec={def}
+      alarm={alarm}
+      compare={compare}
+      carry={carry}
+      path={path}
+      onChange={onChange}
+    />
+  );
+}
+
 function Toolbar({
+  required,
+  onJump,
+  onNew,
   onExportExcel,
+  onPrintPdf,
   onReset,
   onPreview,
 }: {
+  required: RequiredEntry[]; // 必須項目（入力の進捗と未入力一覧）
+  onJump: (path: string) => void;
+  onNew: () => void;
   onExportExcel: () => void;
+  onPrintPdf: () => void;
   onReset: () => void;
   onPreview: () => void;
 }) {
+  const [missingOpen, setMissingOpen] = useState(false);
+  const progress = progressOf(required);
+  const missing = required.filter((e) => e.value.trim() === "");
+  const percent = progress.total ? Math.round((progress.filled / progress.total) * 100) : 100;
   return (
-    <div className="sticky bottom-0 bg-white/80 backdrop-blur border rounded-2xl p-3 flex flex-wrap gap-2 items-center">
-      <button
-        className="px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700"
-        onClick={onExportExcel}
-      >
-        Excelエクスポート
-      </button>
-      <button
-        className="px-3 py-2 rounded-xl bg-slate-700 text-white hover:bg-slate-800"
-        onClick={onPreview}
-      >
-        Excelプレビュー
-      </button>
-      <div className="flex-1" />
-      <button
-        className="px-3 py-2 rounded-xl bg-red-600 text-white hover:bg-red-700"
-        onClick={() => {
-          if (confirm("全ての入力をリセットします。よろしいですか？")) onReset();
-        }}
-      >
-        リセット
-      </button>
+    <div className="sticky bottom-0 bg-white/80 backdrop-blur border rounded-2xl p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <div className="flex-1 bg-gray-100 rounded h-2">
+          <div
+            className={`h-2 rounded ${missing.length ? "bg-amber-500" : "bg-emerald-500"}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <span className="whitespace-nowrap">
+          入力 {progress.filled}/{progress.total}（{percent}%）
+        </span>
+        {missing.length > 0 && (
+          <button
+            className="px-2 py-1 rounded-lg border border-amber-400 text-amber-800 hover:bg-amber-50 whitespace-nowrap"
+            onClick={() => setMissingOpen((o) => !o)}
+          >
+            未入力 {missing.length}
+          </button>
+        )}
+      </div>
+      {missingOpen && missing.length > 0 && (
+        <ul className="max-h-48 overflow-auto text-sm border rounded-xl divide-y bg-white">
+          {missing.map((e) => (
+            <li key={e.path}>
+              <button className="w-full text-left px-3 py-1 hover:bg-amber-50" onClick={() => onJump(e.path)}>
+                {e.where}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2 items-center">
+        <button className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700" onClick={onNew}>
+          新しい点検
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl bg-amber-600 text-white hover:bg-amber-700"
+          onClick={onExportExcel}
+        >
+          Excelエクスポート
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl bg-slate-700 text-white hover:bg-slate-800"
+          onClick={onPreview}
+        >
+          Excelプレビュー
+        </button>
+        <button className="px-3 py-2 rounded-xl border bg-white hover:bg-gray-50" onClick={onPrintPdf}>
+          帳票PDF
+        </button>
+        <div className="flex-1" />
+        <button
+          className="px-3 py-2 rounded-xl bg-red-600 text-white hover:bg-red-700"
+          onClick={() => {
+            if (confirm("全ての入力をリセットします。よろしいですか？")) onReset();
+          }}
+        >
+          リセット
+        </button>
+      </div>
     </div>
   );
 }
 
-function Header() {
+function Header({
+  facilities,
+  onChange,
+  user,
+  onUserChange,
+}: {
+  facilities: FacilityList;
+  onChange: (f: FacilityList) => void;
+  user: string; // 変更履歴に残す入力者
+  onUserChange: (name: string) => void;
+}) {
+  const current = facilities.facilities.find((f) => f.id === facilities.current) ?? facilities.facilities[0];
+  const add = () => {
+    const name = prompt("追加する施設名")?.trim();
+    if (!name) return;
+    const id = `fac_${Date.now().toString(36)}`;
+    onChange({ facilities: [...facilities.facilities, { id, name }], current: id });
+  };
+  const rename = () => {
+    const name = prompt("施設名", current.name)?.trim();
+    if (!name) return;
+    onChange({ ...facilities, facilities: facilities.facilities.map((f) => (f.id === current.id ? { ...f, name } : f)) });
+  };
+  const remove = () => {
+    if (!confirm(`施設「${current.name}」と、その点検記録・設定をすべて削除しますか？`)) return;
+    deleteFacilityData(current.id).then(
+      () => {
+        const rest = facilities.facilities.filter((f) => f.id !== current.id);
+        onChange({ facilities: rest, current: rest[0].id });
+      },
+      (e) => alert(describeStorageError(e))
+    );
+  };
   return (
     <header className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b">
-      <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-3">
+      <div className="max-w-5xl mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
         <div className="text-xl font-semibold">日常点検メモ</div>
         <div className="text-sm text-gray-500">流入水／好気性ろ床 上部／好気性ろ床 下部・処理水／放流水</div>
-        <div className="ml-auto text-xs text-gray-400">v1.28</div>
+        <div className="ml-auto flex items-center gap-1 text-sm">
+          <input
+            className="border rounded-xl px-2 py-1 w-28"
+            aria-label="入力者"
+            placeholder="入力者"
+            value={user}
+            onChange={(e) => onUserChange(e.target.value)}
+          />
+          <select
+            className="border rounded-xl px-2 py-1"
+            aria-label="施設"
+            value={current.id}
+            onChange={(e) => onChange({ ...facilities, current: e.target.value })}
+          >
+            {facilities.facilities.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+          <button className="px-2 py-1 rounded-lg border hover:bg-gray-50" title="施設を追加" onClick={add}>
+            ＋
+          </button>
+          <button className="px-2 py-1 rounded-lg border hover:bg-gray-50" title="施設名を変更" onClick={rename}>
+            名称
+          </button>
+          {facilities.facilities.length > 1 && (
+            <button className="px-2 py-1 rounded-lg border hover:bg-gray-50" title="施設を削除" onClick={remove}>
+              削除
+            </button>
+          )}
+        </div>
+        <SyncStatus facilities={facilities.facilities} />
+        <PwaStatus />
+        <div className="text-xs text-gray-400">v1.28</div>
       </div>
     </header>
   );
 }
 
+// ---- PWA（Service Worker の登録・更新通知・オンライン状態）----
+let swRegistered = false;
+// 本番ビルドのみ登録（開発サーバには sw.js がない）。新しいビルドが待機状態になったら onUpdate
+function registerServiceWorker(onUpdate: (waiting: ServiceWorker) => void) {
+  if (swRegistered || !import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  swRegistered = true;
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(
+    (reg) => {
+      // 前回の起動中に取得済みの新版
+      if (reg.waiting && navigator.serviceWorker.controller) onUpdate(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const next = reg.installing;
+        next?.addEventListener("statechange", () => {
+          // 初回のインストール（controller なし）は更新ではない
+          if (next.state === "installed" && navigator.serviceWorker.controller) onUpdate(next);
+        });
+      });
+      // 開いたままでも新しいビルドを確認する
+      const check = () => reg.update().catch(() => {});
+      setInterval(check, 30 * 60 * 1000);
+      window.addEventListener("online", check);
+    },
+    (e) => console.warn("Service Worker の登録に失敗しました", e)
+  );
+}
+
+// 待機中の新版に切り替えて再読み込み（編集中データは pagehide で保存される）
+function applyUpdate(waiting: ServiceWorker) {
+  navigator.serviceWorker.addEventListener("controllerchange", () => location.reload(), { once: true });
+  waiting.postMessage({ type: "SKIP_WAITING" });
+}
+
+function PwaStatus() {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", on);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+  useEffect(() => registerServiceWorker(setWaiting), []);
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span
+        className={`px-2 py-1 rounded-lg ${online ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-700"}`}
+        title={online ? "" : "入力は端末に保存されます"}
+      >
+        ● {online ? "オンライン" : "オフライン"}
+      </span>
+      {waiting && (
+        <button
+          className="px-2 py-1 rounded-lg bg-amber-500 text-white hover:bg-amber-600"
+          onClick={() => applyUpdate(waiting)}
+        >
+          新しい版があります（更新）
+        </button>
+      )}
+    </div>
+  );
+}
+
+// 同期の状態表示（ヘッダー）。押すと接続先の設定と競合の解決
+const SYNC_INTERVAL_MS = 60_000;
+
+function SyncStatus({ facilities }: { facilities: Facility[] }) {
+  const [config, setConfig] = useState<SyncConfig>(() => readSyncConfig());
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<SyncReport | null>(null);
+  const [syncedAt, setSyncedAt] = useState("");
+  const [error, setError] = useState("");
+  const [changed, setChanged] = useState(false); // 前回の同期以降に手元で変更あり
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(config);
+
+  const run = () => {
+    if (!config.url || !navigator.onLine) return;
+    setRunning(true);
+    setChanged(false);
+    syncAll(config, facilities)
+      .then(
+        (r) => {
+          setReport(r);
+          setSyncedAt(new Date().toLocaleTimeString());
+          setError("");
+        },
+        (e) => setError(e instanceof Error ? e.message : String(e))
+      )
+      .finally(() => setRunning(false));
+  };
+  const latestRun = useRef(run);
+  latestRun.current = run;
+
+  // 起動時・定期・オンライン復帰時・手元の変更の少し後に同期
+  useEffect(() => {
+    if (!config.url) return;
+    latestRun.current();
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    const onLocal = () => {
+      setChanged(true);
+      clearTimeout(debounce);
+      debounce = setTimeout(() => latestRun.current(), 3000);
+    };
+    const onOnline = () => latestRun.current();
+    const timer = setInterval(() => latestRun.current(), SYNC_INTERVAL_MS);
+    window.addEventListener(LOCAL_CHANGE_EVENT, onLocal);
+    window.addEventListener("online", onOnline);
+    return () => {
+      clearTimeout(debounce);
+      clearInterval(timer);
+      window.removeEventListener(LOCAL_CHANGE_EVENT, onLocal);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [config.url, config.token]);
+
+  const conflicts = report?.conflicts ?? [];
+  const pending = (report?.pending ?? 0) > 0 || changed;
+  const [label, tone] = !config.url
+    ? ["同期: 未設定", "bg-gray-100 text-gray-600"]
+    : running
+      ? ["同期中…", "bg-blue-50 text-blue-700"]
+      : error
+        ? ["同期エラー", "bg-red-50 text-red-700"]
+        : conflicts.length
+          ? [`同期の競合 ${conflicts.length}`, "bg-amber-100 text-amber-800"]
+          : pending
+            ? [`未送信${report?.pending ? ` ${report.pending}` : "あり"}`, "bg-amber-50 text-amber-700"]
+            : [`同期済 ${syncedAt}`, "bg-emerald-50 text-emerald-700"];
+  const names = new Map(facilities.map((f) => [f.id, f.name]));
+
+  const resolve = (m: SyncMeta, take: "mine" | "theirs") =>
+    resolveSyncConflict(m, take).then(run, (e) => alert(describeStorageError(e)));
+
+  return (
+    <>
+      <button className={`px-2 py-1 rounded-lg text-xs ${tone}`} title={error} onClick={() => (setDraft(config), setOpen(true))}>
+        ⇅ {label}
+      </button>
+      {open && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] overflow-auto p-4 space-y-3 text-sm">
+            <h3 className="font-semibold">サーバー同期</h3>
+            <TextField
+              label="同期サーバーの URL（空欄で同期しない）"
+              value={draft.url}
+              placeholder="http://192.168.0.10:8787"
+              onChange={(url) => setDraft((d) => ({ ...d, url: url.trim() }))}
+            />
+            <TextField label="合言葉（サーバーの SYNC_TOKEN）" value={draft.token} onChange={(token) => setDraft((d) => ({ ...d, token }))} />
+            <div className="text-gray-600">
+              {syncedAt && `最終同期 ${syncedAt}（送信 ${report?.pushed ?? 0}・受信 ${report?.pulled ?? 0}）`}
+              {error && <div className="text-red-700">{error}</div>}
+            </div>
+            {conflicts.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold">競合（同じ点検が手元とサーバーの両方で変更されています）</div>
+                {conflicts.map((m) => (
+                  <div key={m.id} className="flex flex-wrap items-center gap-2 border rounded-xl p-2">
+                    <span>
+                      {names.get(m.facilityId) ?? m.facilityId} {m.key.replace("#", " ")}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      サーバー: {m.conflict!.deleted ? "削除" : "更新"} {formatStamp(new Date(m.conflict!.updatedAt))}
+                    </span>
+                    <button className="ml-auto px-2 py-1 rounded-lg border hover:bg-gray-50" onClick={() => resolve(m, "mine")}>
+                      手元を採用
+                    </button>
+                    <button className="px-2 py-1 rounded-lg border hover:bg-gray-50" onClick={() => resolve(m, "theirs")}>
+                      サーバーを採用
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2 justify-end">
+              <button className="px-3 py-2 rounded-xl border hover:bg-gray-50" onClick={() => setOpen(false)}>
+                閉じる
+              </button>
+              <button
+                className="px-3 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                disabled={running}
+                onClick={() => {
+                  if (draft.url === config.url && draft.token === config.token) return run();
+                  writeSyncConfig(draft);
+                  setConfig(draft);
+                  setReport(null);
+                  setError("");
+                }}
+              >
+                {draft.url === config.url && draft.token === config.token ? "今すぐ同期" : "保存して同期"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
 function Footer() {
   return (
     <footer className="mt-12 pb-8 text-center text-xs text-gray-400">
@@ -984,16 +6669,37 @@ function Footer() {
 }
 
 // ---- Excelプレビュー（HTMLレンダリング） ----
-function rowsToHtmlTable(rows: string[][]) {
+// Excel 出力で逸脱セルに付ける書式（xlsx-js-style）
+const ALARM_CELL_STYLE = {
+  fill: { patternType: "solid", fgColor: { rgb: "FFC7CE" } },
+  font: { color: { rgb: "9C0006" }, bold: true },
+};
+
+function rowsToHtmlTable(rows: string[][], alarms: [number, number][] = []) {
   const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const hit = new Set(alarms.map(([r, c]) => `${r},${c}`));
+  const style = (ri: number, ci: number) => {
+    if (hit.has(`${ri},${ci}`)) return ' style=\"background:#FFC7CE;color:#9C0006;font-weight:bold\"';
+    return ci === 0 ? ' style=\"font-weight:bold\"' : "";
+  };
   const body = rows
-    .map((r) => `<tr>${r.map((c,i)=>`<td${i===0? ' style=\"font-weight:bold\"':''}>${esc(String(c ?? ""))}</td>`).join("")}</tr>`) 
+    .map((r, ri) => `<tr>${r.map((c,i)=>`<td${style(ri, i)}>${esc(String(c ?? ""))}</td>`).join("")}</tr>`) 
     .join("");
   return `<table class=\"w-full border-collapse\"><tbody>${body}</tbody></table>`;
 }
 
-function PreviewSheet({ rows, onClose }: { rows: string[][]; onClose: () => void }) {
-  const html = rowsToHtmlTable(rows);
+function PreviewSheet({
+  rows,
+  alarms,
+  exceedances,
+  onClose,
+}: {
+  rows: string[][];
+  alarms?: [number, number][];
+  exceedances?: string[];
+  onClose: () => void;
+}) {
+  const html = rowsToHtmlTable(rows, alarms);
   return (
     <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[80vh] overflow-auto">
@@ -1001,7 +6707,17 @@ function PreviewSheet({ rows, onClose }: { rows: string[][]; onClose: () => void
           <h3 className="font-semibold">Excelプレビュー（出力と同じ行構成）</h3>
           <button className="ml-auto px-3 py-1 rounded-lg border hover:bg-gray-50" onClick={onClose}>閉じる</button>
         </div>
-        <div className="p-4">
+        <div className="p-4 space-y-4">
+          {exceedances && exceedances.length > 0 && (
+            <div className="border border-red-300 bg-red-50 rounded-xl p-3 text-sm text-red-800">
+              <div className="font-semibold mb-1">管理範囲の逸脱 {exceedances.length} 件</div>
+              <ul className="list-disc pl-5">
+                {exceedances.map((e, i) => (
+                  <li key={i}>{e}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: html }} />
         </div>
       </div>
@@ -1009,15 +6725,190 @@ function PreviewSheet({ rows, onClose }: { rows: string[][]; onClose: () => void
   );
 }
 
+// ---- 帳票（紙の日常点検表と同じ A4 様式。印刷時だけ表示される）----
+function chunk<T>(items: T[], n: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += n) out.push(items.slice(i, i + n));
+  return out;
+}
+
+const PRINT_CELL = "border border-black px-1 py-0.5";
+
+// 項目名/値の組を1行に3組ずつ並べた表（管理範囲の逸脱は太字・下線）
+function PrintPairs({ items }: { items: { label: string; value: string; alarm?: boolean }[] }) {
+  return (
+    <table className="w-full border-collapse table-fixed">
+      <tbody>
+        {chunk(items, 3).map((row, i) => (
+          <tr key={i}>
+            {[0, 1, 2].map((j) =>
+              row[j] ? (
+                <React.Fragment key={j}>
+                  <th className={`${PRINT_CELL} bg-gray-100 font-normal text-left w-[22%]`}>{row[j].label}</th>
+                  <td className={`${PRINT_CELL} ${row[j].alarm ? "font-bold underline" : ""}`}>{row[j].value}</td>
+                </React.Fragment>
+              ) : (
+                <td key={j} colSpan={2} className={PRINT_CELL} />
+              )
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function PrintPage({
+  form: f,
+  template,
+  rules,
+  facilityName,
+}: {
+  form: FormState;
+  template: PlantTemplate;
+  rules: RangeRule[];
+  facilityName: string;
+}) {
+  const header = HEADER_FIELDS.filter((h) => h.key !== "date" && h.key !== "weekday").map((h) => ({
+    label: h.label,
+    value: f.header[h.key],
+    alarm: !!checkRange(rules, "header", h.key, f.header[h.key]),
+  }));
+  return (
+    <div className="w-[190mm] break-after-page last:break-after-auto text-[9pt] leading-snug text-black space-y-2">
+      <div className="flex items-end border-b-2 border-black pb-1">
+        <div className="text-[15pt] font-bold tracking-widest">日常点検表</div>
+        <div className="ml-4">
+          {f.header.date || "____年__月__日"}
+          {headerValue(f, "weekday") && `（${headerValue(f, "weekday")}）`}
+        </div>
+        <div className="ml-auto">{facilityName}</div>
+      </div>
+      <PrintPairs items={header} />
+
+      {template.sections.map((def) => {
+        const cols = sectionFields(template, def, f.visibility[def.key]);
+        if (cols.length === 0) return null;
+        const s = f.sections[def.key] ?? {};
+        const pd = f.pointData?.[def.key] || {};
+        return (
+          <div key={def.key}>
+            <div className="font-bold">【{def.label}】</div>
+            {!def.perPoint ? (
+              <PrintPairs
+                items={cols.map((d) => ({
+                  label: fieldLabel(d),
+                  value: s[d.key] || "",
+                  alarm: !!checkRange(rules, def.key, d.key, s[d.key]),
+                }))}
+              />
+            ) : (
+              <table className="w-full border-collapse table-fixed">
+                <thead>
+                  <tr>
+                    <th className={`${PRINT_CELL} bg-gray-100 font-normal w-[14%]`}>ポイント</th>
+                    {cols.map((d) => (
+                      <th key={d.key} className={`${PRINT_CELL} bg-gray-100 font-normal`}>
+                        {fieldLabel(d)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {f.points.map((p) => (
+                    <tr key={p.id}>
+                      <td className={PRINT_CELL}>{displayPointLabel(p.label)}</td>
+                      {cols.map((d) => {
+                        const v = String(pd[p.id]?.[d.key] ?? "");
+                        const alarm = checkRange(rules, def.key, d.key, pd[p.id]?.[d.key], p.id);
+                        return (
+                          <td key={d.key} className={`${PRINT_CELL} text-center ${alarm ? "font-bold underline" : ""}`}>
+                            {v}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+
+      <div>
+        <div className="font-bold">【自由記入 備考】</div>
+        <div className="border border-black min-h-[25mm] p-1 whitespace-pre-wrap">{f.extraNote}</div>
+      </div>
+
+      {/* 署名欄（点検者・承認者） */}
+      <div className="flex justify-end gap-0">
+        {[
+          { label: "点検者", name: f.signoff.inspector, at: f.signoff.submittedAt },
+          { label: "承認者", name: f.signoff.approver, at: f.signoff.approvedAt },
+        ].map((b) => (
+          <div key={b.label} className="border border-black -ml-px w-[35mm] text-center">
+            <div className="border-b border-black bg-gray-100">{b.label}</div>
+            <div className="h-[12mm] flex items-center justify-center text-[11pt]">{b.name}</div>
+            <div className="border-t border-black text-[7pt] h-[4mm]">{b.at}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PrintSheets({
+  forms,
+  template,
+  rules,
+  facilityName,
+}: {
+  forms: FormState[];
+  template: PlantTemplate;
+  rules: RangeRule[];
+  facilityName: string;
+}) {
+  return (
+    <div className="print-sheets hidden print:block">
+      {forms.map((f) => (
+        <PrintPage key={inspectionKey(f)} form={f} template={template} rules={rules} facilityName={facilityName} />
+      ))}
+    </div>
+  );
+}
+
 function Card({ children }: { children: React.ReactNode }) {
   return <section className="bg-white shadow-sm rounded-2xl p-4 sm:p-6 border">{children}</section>;
 }
 
-function CardHeader({ title, subtitle }: { title: string; subtitle?: string }) {
+function CardHeader({ title, subtitle, aside }: { title: string; subtitle?: string; aside?: React.ReactNode }) {
   return (
-    <div className="mb-4">
-      <h2 className="text-lg font-semibold">{title}</h2>
-      {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+    <div className="mb-4 flex items-start gap-3">
+      <div className="mr-auto">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+      {aside}
+    </div>
+  );
+}
+
+// 入力の進捗（必須項目のうち入力済みの数）
+function ProgressBadge({ progress }: { progress?: Progress }) {
+  if (!progress || progress.total === 0) return null;
+  const done = progress.filled === progress.total;
+  return (
+    <div className="flex items-center gap-2 text-xs whitespace-nowrap">
+      <div className="w-20 bg-gray-100 rounded h-2">
+        <div
+          className={`h-2 rounded ${done ? "bg-emerald-500" : "bg-amber-500"}`}
+          style={{ width: `${(progress.filled / progress.total) * 100}%` }}
+        />
+      </div>
+      <span className={done ? "text-emerald-700" : "text-amber-700"}>
+        {done ? "入力済み" : `入力 ${progress.filled}/${progress.total}`}
+      </span>
     </div>
   );
 }
@@ -1028,22 +6919,27 @@ function TextField({
   value,
   onChange,
   placeholder,
+  readOnly = false,
+  path,
 }: {
   label: string;
   type?: string;
   value: string;
   placeholder?: string;
-  onChange: (v: string) => void;
+  readOnly?: boolean; // 計算値の表示
+  path?: string; // 未入力一覧から移動する目印
+  onChange?: (v: string) => void;
 }) {
   return (
-    <label className="flex flex-col gap-1">
+    <label className="flex flex-col gap-1" data-path={path}>
       <span className="text-sm text-gray-700">{label}</span>
       <input
         type={type}
-        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring"
+        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring disabled:bg-gray-100 disabled:text-gray-600 read-only:bg-gray-50"
         value={value}
         placeholder={placeholder}
-        onChange={(e) => onChange(e.target.value)}
+        readOnly={readOnly}
+        onChange={(e) => onChange?.(e.target.value)}
       />
     </label>
   );
@@ -1056,56 +6952,110 @@ function NumberField({
   onChange,
   placeholder,
   allowNegative = false,
+  spec,
+  alarm,
+  compare,
+  carry,
+  path,
 }: {
   label: string;
   value: string;
   placeholder?: string;
+  path?: string; // 未入力一覧から移動する目印
   allowNegative?: boolean;
+  spec?: NumberSpec; // 入力条件（範囲・小数桁・負の値）
+  alarm?: string | null; // 管理範囲の逸脱メッセージ
+  compare?: Comparison | null; // 比較値（前回など）
+  carry?: CarryMark | null; // 引き継いで未確認
   onChange: (v: string) => void;
 }) {
-  // 入力フィルタ: 数字/小数点/（必要なら）先頭のマイナスのみ
-  const sanitize = (raw: string) => {
-    let v = raw.replace(/[^0-9.\-]/g, "");
-    // マイナスは先頭のみ許可
-    if (!allowNegative) v = v.replace(/\-/g, "");
-    else v = v.replace(/(?!^)-/g, "");
-    // ドットは1個まで
-    const parts = v.split(".");
-    if (parts.length > 2) v = parts.shift() + "." + parts.join("");
-    return v;
-  };
+  const negative = allowNegative || !!spec?.allowNegative;
+  const problem = numberProblem(value, spec);
   return (
-    <label className="flex flex-col gap-1">
+    <label className="flex flex-col gap-1" data-path={path}>
       <span className="text-sm text-gray-700">{label}</span>
       <input
         type="text"
         inputMode="decimal"
-        pattern={allowNegative ? "^-?[0-9]*\.?[0-9]*$" : "^[0-9]*\.?[0-9]*$"}
-        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring"
+        pattern={negative ? "^-?[0-9]*\.?[0-9]*$" : "^[0-9]*\.?[0-9]*$"}
+        aria-invalid={!!problem}
+        className={`border rounded-xl px-3 py-2 focus:outline-none focus:ring disabled:bg-gray-100 disabled:text-gray-600 ${
+          problem || alarm ? "border-red-500 bg-red-50 text-red-800" : carry ? CARRIED_INPUT : ""
+        }`}
         value={value}
         placeholder={placeholder}
-        onChange={(e) => onChange(sanitize(e.target.value))}
+        onChange={(e) => onChange(normalizeNumberInput(e.target.value, negative))}
       />
+      {problem && <span className="text-xs text-red-600 font-semibold">入力エラー: {problem}</span>}
+      {alarm && <span className="text-xs text-red-600">{alarm}</span>}
+      <CarryNote carry={carry} />
+      <CompareNote compare={compare} />
     </label>
   );
 }
 
+// 引き継いだ値の印（値を変えるか「確認」で外れる）
+type CarryMark = { from: string; onConfirm: () => void };
+const CARRIED_INPUT = "border-dashed border-sky-500 bg-sky-50";
+
+function CarryNote({ carry }: { carry?: CarryMark | null }) {
+  if (!carry) return null;
+  return (
+    <span className="text-xs text-sky-800 flex items-center gap-1">
+      {carry.from}から引継ぎ（未確認）
+      <button
+        type="button"
+        className="px-1.5 rounded border border-sky-400 hover:bg-sky-100"
+        onClick={(e) => {
+          e.preventDefault();
+          carry.onConfirm();
+        }}
+      >
+        確認
+      </button>
+    </span>
+  );
+}
+
+// 入力欄の下の比較値（大きな変化は強調）
+function CompareNote({ compare }: { compare?: Comparison | null }) {
+  if (!compare) return null;
+  return (
+    <span
+      className={`text-xs ${compare.jump ? "text-amber-800 bg-amber-100 rounded px-1 font-semibold" : "text-gray-500"}`}
+      title={compare.jump ? "比較値から大きく変わっています" : undefined}
+    >
+      {compare.label}: {compare.value}
+      {compare.delta && `（${compare.delta}）`}
+      {compare.jump && " ⚠"}
+    </span>
+  );
+}
+
 function SelectField({
   label,
   value,
   onChange,
   options,
+  compare,
+  carry,
+  path,
 }: {
   label: string;
   value: string;
   options: readonly string[] | string[];
+  compare?: Comparison | null;
+  carry?: CarryMark | null;
+  path?: string; // 未入力一覧から移動する目印
   onChange: (v: string) => void;
 }) {
   return (
-    <label className="flex flex-col gap-1">
+    <label className="flex flex-col gap-1" data-path={path}>
       <span className="text-sm text-gray-700">{label}</span>
       <select
-        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring bg-white"
+        className={`border rounded-xl px-3 py-2 focus:outline-none focus:ring bg-white disabled:bg-gray-100 disabled:text-gray-600 ${
+          carry ? CARRIED_INPUT : ""
+        }`}
         value={value}
         onChange={(e) => onChange(e.target.value)}
       >
@@ -1115,6 +7065,8 @@ function SelectField({
           </option>
         ))}
       </select>
+      <CarryNote carry={carry} />
+      <CompareNote compare={compare} />
     </label>
   );
 }
@@ -1134,7 +7086,7 @@ function TextArea({
     <label className="flex flex-col gap-1 md:col-span-2">
       <span className="text-sm text-gray-700">{label}</span>
       <textarea
-        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring min-h-[80px]"
+        className="border rounded-xl px-3 py-2 focus:outline-none focus:ring min-h-[80px] disabled:bg-gray-100 disabled:text-gray-600"
         value={value}
         placeholder={placeholder}
         onChange={(e) => onChange(e.target.value)}
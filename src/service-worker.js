@@ -0,0 +1,35 @@
+// Service Worker（ビルド時に vite.config.ts が PRECACHE / VERSION を埋め込んで dist/sw.js を出力する）
+// - インストール時にビルド成果物をすべてキャッシュ → 電波がなくても起動できる
+// - 新しいビルドは待機状態で止め、画面の「更新」操作（SKIP_WAITING）で切り替える
+/* global self, caches, PRECACHE, VERSION */
+const CACHE = `inspection-checklist-${VERSION}`;
+const url = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE.map(url))));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => keys.filter((k) => k.startsWith("inspection-checklist-") && k !== CACHE))
+      .then((old) => Promise.all(old.map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// 画面遷移はキャッシュ済みの index.html（アプリ本体）、それ以外はキャッシュ優先
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET" || new URL(req.url).origin !== self.location.origin) return;
+  if (req.mode === "navigate") {
+    event.respondWith(caches.match(url("index.html")).then((res) => res || fetch(req)));
+    return;
+  }
+  event.respondWith(caches.match(req).then((res) => res || fetch(req)));
+});
@@ -0,0 +1,40 @@
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { defineConfig, type Plugin } from "vite";
+
+// ビルド成果物 + public のファイル一覧を埋め込んだ sw.js を出力する（オフライン起動用）
+function serviceWorker(): Plugin {
+  let publicDir = "";
+  const listFiles = (dir: string): string[] =>
+    readdirSync(dir, { withFileTypes: true }).flatMap((e) =>
+      e.isDirectory() ? listFiles(join(dir, e.name)) : [relative(publicDir, join(dir, e.name)).split("\\").join("/")]
+    );
+  return {
+    name: "inspection-service-worker",
+    apply: "build",
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = listFiles(publicDir);
+      const files = [...Object.keys(bundle), ...publicFiles].sort();
+      const source = readFileSync("src/service-worker.js", "utf8");
+      // 名前が変わらないファイル（アイコン・manifest など）の中身の変更でも版が変わるように、内容も含める
+      const hash = createHash("sha256").update(files.join("\n")).update(source);
+      for (const item of Object.values(bundle)) hash.update(item.type === "chunk" ? item.code : item.source);
+      for (const f of publicFiles) hash.update(readFileSync(join(publicDir, f)));
+      const version = hash.digest("hex").slice(0, 12);
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: `const PRECACHE = ${JSON.stringify(files)};\nconst VERSION = "${version}";\n${source}`,
+      });
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [serviceWorker()],
+});